@@ -0,0 +1,151 @@
+#!/usr/bin/env python3
+import csv
+import json
+import re
+from collections import Counter, defaultdict
+from pathlib import Path
+
+ROOT = Path(__file__).resolve().parents[1]
+VOCAB_CSV = ROOT / "toeic_vocab_ecdict.csv"
+SEED_JSON = ROOT / "scripts" / "examples_seed.json"
+SENTENCES_TSV = ROOT / "data" / "sentences.tsv"
+OUTPUT_JSON = ROOT / "public" / "dict" / "examples.json"
+
+MAX_SENTENCES = 3
+MAX_COLLOCATIONS = 4
+MIN_COLLOCATION_COUNT = 2
+MIN_WORDS = 6
+MAX_WORDS = 25
+MAX_PHRASE_WORDS = 4
+
+STOPWORDS = {
+    "a", "an", "the", "and", "or", "but", "to", "of", "in", "on", "at", "for", "by",
+    "with", "from", "is", "are", "was", "were", "be", "been", "it", "this", "that",
+    "he", "she", "they", "we", "you", "i", "his", "her", "their", "our", "your", "my",
+    "its", "not", "will", "would", "can", "could", "has", "have", "had", "do", "does",
+}
+
+INFLECTIONS = ("ies", "es", "s", "ed", "d", "ing")
+
+
+def normalize_term(term: str) -> str:
+    term = re.sub(r"\s*\([^)]*\)\s*$", "", term.strip().lower())
+    return re.sub(r"\s+", " ", term)
+
+
+def tokenize(sentence: str):
+    return re.findall(r"[a-z]+(?:'[a-z]+)?", sentence.lower())
+
+
+def base_forms(token: str):
+    yield token
+    for suffix in INFLECTIONS:
+        if token.endswith(suffix) and len(token) - len(suffix) >= 3:
+            stem = token[: -len(suffix)]
+            yield stem
+            yield stem + "e"
+            if suffix == "ies":
+                yield stem + "y"
+            if len(stem) >= 2 and stem[-1] == stem[-2]:
+                yield stem[:-1]
+
+
+def load_terms():
+    with VOCAB_CSV.open("r", encoding="utf-8-sig", newline="") as handle:
+        reader = csv.DictReader(handle)
+        return {normalize_term(row.get("English", "")) for row in reader} - {""}
+
+
+def load_seed():
+    if not SEED_JSON.exists():
+        return {}
+    seed = json.loads(SEED_JSON.read_text(encoding="utf-8"))
+    return {normalize_term(term): entry for term, entry in seed.items()}
+
+
+def read_sentences():
+    if not SENTENCES_TSV.exists():
+        return
+    with SENTENCES_TSV.open("r", encoding="utf-8", newline="") as handle:
+        for line in handle:
+            parts = line.rstrip("\n").split("\t")
+            # Tatoeba exports are "id<TAB>lang<TAB>text"; plain files hold one sentence per line.
+            if len(parts) >= 3 and parts[1] != "eng":
+                continue
+            sentence = parts[-1].strip()
+            if MIN_WORDS <= len(sentence.split()) <= MAX_WORDS:
+                yield sentence
+
+
+def mine_corpus(terms):
+    sentences = defaultdict(list)
+    neighbours = defaultdict(Counter)
+
+    for sentence in read_sentences():
+        tokens = tokenize(sentence)
+        for start in range(len(tokens)):
+            for size in range(1, MAX_PHRASE_WORDS + 1):
+                window = tokens[start : start + size]
+                if len(window) < size:
+                    break
+                candidates = [" ".join(window)] if size > 1 else base_forms(window[0])
+                term = next((value for value in candidates if value in terms), None)
+                if not term:
+                    continue
+                if sentence not in sentences[term]:
+                    sentences[term].append(sentence)
+                before = tokens[start - 1] if start > 0 else ""
+                after = tokens[start + size] if start + size < len(tokens) else ""
+                if before and before not in STOPWORDS:
+                    neighbours[term][f"{before} {term}"] += 1
+                if after and after not in STOPWORDS:
+                    neighbours[term][f"{term} {after}"] += 1
+
+    return sentences, neighbours
+
+
+def pick_sentences(candidates):
+    # Prefer mid-length sentences: long enough for context, short enough to read aloud.
+    return sorted(candidates, key=lambda sentence: abs(len(sentence.split()) - 12))[:MAX_SENTENCES]
+
+
+def main():
+    if not VOCAB_CSV.exists():
+        raise SystemExit(f"Missing vocabulary CSV: {VOCAB_CSV}")
+
+    terms = load_terms()
+    seed = load_seed()
+    mined_sentences, neighbours = mine_corpus(terms)
+
+    examples = {}
+    for term in sorted(terms):
+        entry = seed.get(term, {})
+        sentences = list(entry.get("sentences", []))
+        if len(sentences) < MAX_SENTENCES:
+            extra = [value for value in mined_sentences.get(term, []) if value not in sentences]
+            sentences += pick_sentences(extra)[: MAX_SENTENCES - len(sentences)]
+
+        collocations = list(entry.get("collocations", []))
+        if not collocations:
+            collocations = [
+                phrase
+                for phrase, count in neighbours[term].most_common(MAX_COLLOCATIONS)
+                if count >= MIN_COLLOCATION_COUNT
+            ]
+
+        if sentences or collocations:
+            examples[term] = {"sentences": sentences, "collocations": collocations}
+
+    OUTPUT_JSON.parent.mkdir(parents=True, exist_ok=True)
+    OUTPUT_JSON.write_text(
+        json.dumps(examples, ensure_ascii=False, indent=2),
+        encoding="utf-8",
+    )
+
+    # Without data/sentences.tsv only the hand-written seed words get examples.
+    print(f"Wrote {len(examples)} entries to {OUTPUT_JSON}")
+    print(f"Coverage: {len(examples)} of {len(terms)} words")
+
+
+if __name__ == "__main__":
+    main()
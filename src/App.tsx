@@ -1,263 +1,503 @@
-import { useEffect, useMemo, useRef, useState, type KeyboardEvent } from 'react';
+import { useEffect, useMemo, useRef, useState } from 'react';
 import vocabRaw from '../toeic_vocab_ecdict.csv?raw';
-
-type VocabItem = {
-  english: string;
-  chinese: string;
-  checkStatus: string;
-  ecdictZh: string;
-  ecdictPos: string;
-  englishKey: string;
-};
-
-type VoiceOption = {
-  name: string;
-  lang: string;
-  voiceURI: string;
+import {
+  DEFAULT_NEW_PER_DAY,
+  REVIEW_GRADES,
+  SLOW_RECALL_MS,
+  buildStudyQueue,
+  formatInterval,
+  gradeCard,
+  newWordsRemaining,
+  pickNextEntry,
+  recordNewWord,
+  summarizeQueue,
+  type NewWordLog,
+  type QueueEntry,
+  type GradeOptions,
+  type QueueKind,
+  type ReviewGrade,
+  type ScheduleMap,
+} from './srs';
+import { STATE_VERSION, openStudyStore, type StudyEvent, type StudyStore } from './storage';
+import { parseVocab, type VocabItem } from './vocab';
+import QuizMode from './components/QuizMode';
+import TypingMode from './components/TypingMode';
+import PlaybackSettings from './components/PlaybackSettings';
+import WordList from './components/WordList';
+import DeckManager from './components/DeckManager';
+import BackupPanel from './components/BackupPanel';
+import FlaggedReview from './components/FlaggedReview';
+import ExamplePanel from './components/ExamplePanel';
+import ClozeMode from './components/ClozeMode';
+import FormsMode from './components/FormsMode';
+import ExamMode from './components/ExamMode';
+import RelatedWords from './components/RelatedWords';
+import TopicScope from './components/TopicScope';
+import TopicEditor from './components/TopicEditor';
+import AnnotationEditor from './components/AnnotationEditor';
+import AnnotationFilterSelect from './components/AnnotationFilterSelect';
+import LookupPanel from './components/LookupPanel';
+import StatsDashboard from './components/StatsDashboard';
+import ProfileSwitcher from './components/ProfileSwitcher';
+import ProfileManager from './components/ProfileManager';
+import AppStatusBanner from './components/AppStatusBanner';
+import SpokenText from './components/SpokenText';
+import { downloadFile, serializeVocabCsv } from './backup';
+import { BUNDLED_DECK_ID, combineDecks, type Deck } from './decks';
+import type { DictionaryMap } from './lookup';
+import { findExamples, type ExampleMap } from './examples';
+import { KNOWN_CONFUSABLES, buildRelationIndex, relatedItems } from './families';
+import { buildKnownWords } from './spelling';
+import { addExamAttempt, type ExamAttempt, type ExamQuestion } from './exam';
+import {
+  applyTopicOverrides,
+  buildTopicIndex,
+  filterByTopics,
+  isTopicId,
+  summarizeTopics,
+  toggleTopic,
+  topicsFor,
+  type TopicId,
+  type TopicOverrides,
+} from './topics';
+import { registerServiceWorker } from './pwa';
+import {
+  createBrowserSpeechBackend,
+  createSpeechService,
+  resolveVoiceURI,
+  voicesFor,
+  type SpokenRange,
+  type VoiceOption,
+} from './speech';
+import {
+  findProfile,
+  loadProfileRegistry,
+  saveProfileRegistry,
+  type ProfileRegistry,
+} from './profiles';
+import {
+  DEFAULT_SHORTCUTS,
+  findShortcut,
+  formatKey,
+  gradeShortcuts,
+  isEditableTarget,
+  keyFromEvent,
+  normalizeShortcuts,
+  rebindShortcut,
+  type ShortcutAction,
+  type ShortcutBindings,
+} from './shortcuts';
+import ShortcutOverlay from './components/ShortcutOverlay';
+import {
+  DEFAULT_RECALL_MODE,
+  FULLY_REVEALED,
+  formatRevealTime,
+  recallModeLabels,
+  revealLabel,
+  type RecallMode,
+  type RevealStage,
+  type RevealState,
+} from './recall';
+import {
+  collectTags,
+  filterByAnnotation,
+  updateAnnotation,
+  type AnnotationFilter,
+  type AnnotationMap,
+  type WordAnnotation,
+} from './annotations';
+import {
+  applyCorrections,
+  isFlagged,
+  type Correction,
+  type CorrectionMap,
+} from './corrections';
+import {
+  DEFAULT_HIDDEN_DOMAINS,
+  DOMAIN_OPTIONS,
+  domainLabel,
+  summarizeDefinition,
+} from './definitions';
+import DefinitionList from './components/DefinitionList';
+import {
+  DEFAULT_CHINESE_SCRIPT,
+  chineseScriptLabels,
+  loadTraditionalConverter,
+  toDisplayChinese,
+  type ChineseConverter,
+  type ChineseScript,
+} from './chinese';
+import {
+  DEFAULT_SCRIPT_ID,
+  builtInScripts,
+  describeStep,
+  findScript,
+  type PlaybackField,
+  type PlaybackScript,
+  type PlaybackStep,
+} from './playback';
+
+type StudyMode =
+  | 'cards'
+  | 'list'
+  | 'quiz'
+  | 'spelling'
+  | 'dictation'
+  | 'cloze'
+  | 'forms'
+  | 'exam'
+  | 'review'
+  | 'stats'
+  | 'decks';
+
+type PracticeType = 'quiz' | 'spelling' | 'dictation' | 'cloze' | 'forms';
+
+type SpeechLang = 'en-US' | 'zh-TW';
+
+type SpeakTextOptions = {
+  key: string;
+  rate?: number;
+  // Playback sequences queue behind the current utterance; a direct request cuts it off.
+  queue?: boolean;
 };
 
-type DictionaryEntry = {
-  zh: string;
-  pos: string;
-};
-
-type DictionaryMap = Record<string, DictionaryEntry>;
-
-const parseCsvLine = (line: string) => {
-  const values: string[] = [];
-  let current = '';
-  let inQuotes = false;
+const practiceModes: PracticeType[] = ['quiz', 'spelling', 'dictation', 'cloze', 'forms'];
 
-  for (let index = 0; index < line.length; index += 1) {
-    const char = line[index];
-
-    if (char === '"') {
-      inQuotes = !inQuotes;
-      continue;
-    }
-
-    if (char === ',' && !inQuotes) {
-      values.push(current.trim());
-      current = '';
-      continue;
-    }
-
-    current += char;
-  }
+const isPracticeMode = (value: StudyMode): value is PracticeType =>
+  (practiceModes as StudyMode[]).includes(value);
 
-  values.push(current.trim());
-  return values;
+const bundledDeck: Deck = {
+  id: BUNDLED_DECK_ID,
+  name: 'TOEIC core list',
+  format: 'bundled',
+  items: parseVocab(vocabRaw),
+  importedAt: 0,
 };
 
-const alignRow = (parts: string[], headerLength: number) => {
-  if (parts.length === headerLength) {
-    return parts;
-  }
-
-  if (parts.length < headerLength) {
-    return [...parts, ...Array(headerLength - parts.length).fill('')];
-  }
-
-  if (headerLength <= 2) {
-    return parts.slice(0, headerLength);
-  }
-
-  const tailLength = headerLength - 2;
-  const chinese = parts.slice(1, parts.length - tailLength).join(',');
-  return [parts[0], chinese, ...parts.slice(parts.length - tailLength)];
+const gradeLabels: Record<ReviewGrade, string> = {
+  again: 'Again',
+  hard: 'Hard',
+  good: 'Good',
+  easy: 'Easy',
 };
 
-const normalizeLookup = (value: string) =>
-  value
-    .trim()
-    .toLowerCase()
-    .replace(/\s+/g, ' ')
-    .replace(/\s*\([^)]*\)\s*$/, '');
-
-const parseVocab = (raw: string): VocabItem[] => {
-  const lines = raw
-    .split(/\r?\n/)
-    .map((line) => line.trim())
-    .filter(Boolean);
-
-  if (lines.length <= 1) {
-    return [];
-  }
-
-  const header = parseCsvLine(lines[0]);
-  const headerLength = header.length;
-  const indexMap = new Map(header.map((name, index) => [name, index]));
-
-  const englishIndex = indexMap.get('English') ?? 0;
-  const chineseIndex = indexMap.get('Chinese Meanings') ?? 1;
-  const wordWithPosIndex = indexMap.get('word_with_pos') ?? englishIndex;
-  const checkStatusIndex = indexMap.get('check_status') ?? -1;
-  const ecdictZhIndex = indexMap.get('ecdict_zh') ?? -1;
-  const ecdictPosIndex = indexMap.get('ecdict_pos') ?? -1;
-
-  return lines.slice(1).reduce<VocabItem[]>((items, line) => {
-    const parts = alignRow(parseCsvLine(line), headerLength);
-    const englishKey = parts[englishIndex]?.trim() ?? '';
-    const wordWithPos = parts[wordWithPosIndex]?.trim() ?? englishKey;
-    const chinese = parts[chineseIndex]?.trim() ?? '';
-    const checkStatus = checkStatusIndex >= 0 ? parts[checkStatusIndex]?.trim() ?? '' : '';
-    const ecdictZh = ecdictZhIndex >= 0 ? parts[ecdictZhIndex]?.trim() ?? '' : '';
-    const ecdictPos = ecdictPosIndex >= 0 ? parts[ecdictPosIndex]?.trim() ?? '' : '';
-
-    if (wordWithPos && chinese) {
-      items.push({
-        english: wordWithPos,
-        chinese,
-        checkStatus,
-        ecdictZh,
-        ecdictPos,
-        englishKey,
-      });
-    }
-
-    return items;
-  }, []);
+const modeLabels: Record<StudyMode, string> = {
+  cards: 'Flashcards',
+  list: 'Word List',
+  quiz: 'Quiz',
+  spelling: 'Spelling',
+  dictation: 'Dictation',
+  cloze: 'Cloze',
+  forms: 'Word Forms',
+  exam: 'Mock Test',
+  review: 'Flagged',
+  stats: 'Stats',
+  decks: 'Decks',
 };
 
-const vocabItems = parseVocab(vocabRaw);
+const EMPTY_REVEAL: RevealState = { key: '', stage: 0, elapsedMs: null };
 
-const getRandomIndex = (length: number) => {
-  if (length <= 1) {
-    return 0;
-  }
+const speech = createSpeechService(createBrowserSpeechBackend());
 
-  return Math.floor(Math.random() * length);
+const queueKindLabels: Record<QueueKind, string> = {
+  due: 'Review',
+  new: 'New word',
+  ahead: 'Studying ahead',
 };
 
-const pickNextIndex = (currentIndex: number, length: number) => {
-  if (length <= 1) {
-    return 0;
-  }
-
-  let nextIndex = currentIndex;
-  while (nextIndex === currentIndex) {
-    nextIndex = getRandomIndex(length);
+const classifyKey = (key: string, schedules: ScheduleMap, now: number): QueueKind => {
+  const card = schedules[key];
+  if (!card) {
+    return 'new';
   }
 
-  return nextIndex;
+  return card.due <= now ? 'due' : 'ahead';
 };
 
-const getVoiceOptions = (): VoiceOption[] => {
-  if (typeof window === 'undefined' || !('speechSynthesis' in window)) {
-    return [];
-  }
-
-  return window.speechSynthesis.getVoices().map((voice) => ({
-    name: voice.name,
-    lang: voice.lang,
-    voiceURI: voice.voiceURI,
-  }));
-};
+const pickInitialEntry = (): QueueEntry | undefined =>
+  buildStudyQueue(bundledDeck.items.map((item) => item.englishKey), {}, {
+    now: Date.now(),
+    newPerDay: DEFAULT_NEW_PER_DAY,
+    newLog: { day: '', count: 0 },
+  })[0];
 
-const pickDefaultVoice = (voices: VoiceOption[], prefix: string) => {
-  const preferred = voices.find((voice) => voice.lang.toLowerCase().startsWith(prefix));
-  return preferred?.voiceURI ?? voices[0]?.voiceURI ?? '';
-};
+const clampPause = (durationMs: number) => Math.max(200, durationMs);
 
-const pickTaiwanVoice = (voices: VoiceOption[]) => {
-  const rocko = voices.find(
-    (voice) =>
-      voice.name.toLowerCase().includes('rocko') &&
-      voice.lang.toLowerCase().startsWith('zh-tw')
-  );
-  if (rocko) {
-    return rocko.voiceURI;
-  }
+const slowRate = (rate: number) => Math.max(0.5, rate * 0.65);
 
-  return pickDefaultVoice(voices, 'zh-');
+type PlaybackSources = {
+  definition: (raw: string) => string;
+  example: (item: VocabItem) => string;
 };
 
-const resolveVoice = (voiceMap: Map<string, VoiceOption>, voiceURI: string) => {
-  if (typeof window === 'undefined' || !('speechSynthesis' in window)) {
-    return undefined;
+const playbackText = (item: VocabItem, field: PlaybackField, sources: PlaybackSources) => {
+  if (field === 'english') {
+    return item.english;
   }
-
-  const selected = voiceMap.get(voiceURI);
-  if (!selected) {
-    return undefined;
+  if (field === 'chinese') {
+    return item.chinese;
   }
-
-  return window.speechSynthesis.getVoices().find((voice) => voice.voiceURI === selected.voiceURI);
-};
-
-const speakText = (
-  text: string,
-  lang: string,
-  voiceMap: Map<string, VoiceOption>,
-  voiceURI: string,
-  speechSupported: boolean,
-  rate: number
-) => {
-  if (!speechSupported) {
-    return Promise.resolve();
+  if (field === 'example') {
+    return sources.example(item);
   }
-
-  return new Promise<void>((resolve) => {
-    const utterance = new SpeechSynthesisUtterance(text);
-    utterance.lang = lang;
-    utterance.rate = rate;
-    const voice = resolveVoice(voiceMap, voiceURI);
-    if (voice) {
-      utterance.voice = voice;
-    }
-    utterance.onend = () => resolve();
-    utterance.onerror = () => resolve();
-    window.speechSynthesis.speak(utterance);
-  });
+  return sources.definition(item.ecdictZh);
 };
 
-const clampPause = (durationMs: number) => Math.max(200, durationMs);
-
 const wait = (durationMs: number) =>
   new Promise<void>((resolve) => {
     window.setTimeout(resolve, durationMs);
   });
 
 export default function App() {
-  const [currentIndex, setCurrentIndex] = useState(() => getRandomIndex(vocabItems.length));
+  const [initialEntry] = useState(pickInitialEntry);
+  const [currentKey, setCurrentKey] = useState(initialEntry?.key ?? '');
+  const [currentKind, setCurrentKind] = useState<QueueKind | null>(initialEntry?.kind ?? null);
+  const [schedules, setSchedules] = useState<ScheduleMap>({});
+  const [newLog, setNewLog] = useState<NewWordLog>({ day: '', count: 0 });
+  const [newPerDay, setNewPerDay] = useState(DEFAULT_NEW_PER_DAY);
   const [voices, setVoices] = useState<VoiceOption[]>([]);
+  const [spoken, setSpoken] = useState<SpokenRange | null>(null);
   const [selectedVoiceURI, setSelectedVoiceURI] = useState('');
   const [selectedChineseVoiceURI, setSelectedChineseVoiceURI] = useState('');
   const [autoMode, setAutoMode] = useState(false);
   const [speechRate, setSpeechRate] = useState(1);
   const [dictionary, setDictionary] = useState<DictionaryMap>({});
-  const [lookupTerm, setLookupTerm] = useState('');
-  const [lookupResult, setLookupResult] = useState<DictionaryEntry | null>(null);
-  const [lookupMessage, setLookupMessage] = useState('');
-  const current = vocabItems[currentIndex];
-  const total = vocabItems.length;
-  const speechSupported = typeof window !== 'undefined' && 'speechSynthesis' in window;
+  const [dictionaryError, setDictionaryError] = useState<string | null>(null);
+  const [dictionaryAttempt, setDictionaryAttempt] = useState(0);
+  const [online, setOnline] = useState(() => navigator.onLine);
+  const [offlineReady, setOfflineReady] = useState(false);
+  const [applyUpdate, setApplyUpdate] = useState<(() => void) | null>(null);
+  const [examples, setExamples] = useState<ExampleMap>({});
+  const [storageReady, setStorageReady] = useState(false);
+  const [profileRegistry, setProfileRegistry] = useState(loadProfileRegistry);
+  const [mode, setMode] = useState<StudyMode>('cards');
+  const [playbackScriptId, setPlaybackScriptId] = useState(DEFAULT_SCRIPT_ID);
+  const [customScripts, setCustomScripts] = useState<PlaybackScript[]>([]);
+  const [autoStep, setAutoStep] = useState(0);
+  const [autoPaused, setAutoPaused] = useState(false);
+  const [importedDecks, setImportedDecks] = useState<Deck[]>([]);
+  const [activeDeckIds, setActiveDeckIds] = useState<string[]>([BUNDLED_DECK_ID]);
+  const [hiddenDomains, setHiddenDomains] = useState<string[]>(DEFAULT_HIDDEN_DOMAINS);
+  const [chineseScript, setChineseScript] = useState<ChineseScript>(DEFAULT_CHINESE_SCRIPT);
+  const [toTraditional, setToTraditional] = useState<ChineseConverter | null>(null);
+  const decks = useMemo(() => [bundledDeck, ...importedDecks], [importedDecks]);
+  const [corrections, setCorrections] = useState<CorrectionMap>({});
+  const [annotations, setAnnotations] = useState<AnnotationMap>({});
+  const [topicOverrides, setTopicOverrides] = useState<TopicOverrides>({});
+  const [topicFilter, setTopicFilter] = useState<TopicId[]>([]);
+  const [examAttempts, setExamAttempts] = useState<ExamAttempt[]>([]);
+  const [practiceFilter, setPracticeFilter] = useState<AnnotationFilter>('all');
+  const [shortcuts, setShortcuts] = useState<ShortcutBindings>(DEFAULT_SHORTCUTS);
+  const [shortcutsOpen, setShortcutsOpen] = useState(false);
+  const [recallMode, setRecallMode] = useState<RecallMode>(DEFAULT_RECALL_MODE);
+  const [reveal, setReveal] = useState<RevealState>(EMPTY_REVEAL);
+  const sourceItems = useMemo(() => combineDecks(decks, activeDeckIds), [decks, activeDeckIds]);
+  const vocabItems = useMemo(
+    () => applyCorrections(sourceItems, corrections),
+    [sourceItems, corrections]
+  );
+  const autoTopics = useMemo(() => buildTopicIndex(vocabItems), [vocabItems]);
+  const topicIndex = useMemo(
+    () => applyTopicOverrides(autoTopics, topicOverrides),
+    [autoTopics, topicOverrides]
+  );
+  const scopedItems = useMemo(
+    () => filterByTopics(vocabItems, topicIndex, topicFilter),
+    [vocabItems, topicIndex, topicFilter]
+  );
+  const practiceItems = useMemo(
+    () => filterByAnnotation(scopedItems, annotations, practiceFilter),
+    [scopedItems, annotations, practiceFilter]
+  );
+  const knownTags = useMemo(() => collectTags(annotations), [annotations]);
+  const vocabKeys = useMemo(() => scopedItems.map((item) => item.englishKey), [scopedItems]);
+  const scopedKeys = useMemo(() => new Set(vocabKeys), [vocabKeys]);
+  const vocabByKey = useMemo(
+    () => new Map(vocabItems.map((item) => [item.englishKey, item])),
+    [vocabItems]
+  );
+  const relations = useMemo(() => buildRelationIndex(vocabItems), [vocabItems]);
+  const knownWords = useMemo(
+    () =>
+      buildKnownWords([...vocabItems.map((item) => item.englishKey), ...KNOWN_CONFUSABLES.flat()]),
+    [vocabItems]
+  );
+  const current = scopedKeys.has(currentKey) ? vocabByKey.get(currentKey) : undefined;
+  const currentExamples = current ? findExamples(examples, current) : undefined;
+  const total = scopedItems.length;
+  const topicProgress = useMemo(
+    () => summarizeTopics(vocabItems, topicIndex, schedules),
+    [vocabItems, topicIndex, schedules]
+  );
+  const speechSupported = speech.supported;
   const dictionaryReady = Object.keys(dictionary).length > 0;
-  const currentIndexRef = useRef(currentIndex);
+  const currentKeyRef = useRef(currentKey);
+  const queueStateRef = useRef({ schedules, newLog, newPerDay });
+  const storeRef = useRef<StudyStore | null>(null);
+  const autoControlRef = useRef({ paused: false, back: false });
+  const lookupInputRef = useRef<HTMLInputElement>(null);
+  const shortcutHandlerRef = useRef<(action: ShortcutAction) => void>(() => {});
+  const cardShownAtRef = useRef(Date.now());
+  const playbackScripts = useMemo(() => [...builtInScripts, ...customScripts], [customScripts]);
+  const playbackSteps = useMemo(
+    () => findScript(playbackScripts, playbackScriptId).steps,
+    [playbackScripts, playbackScriptId]
+  );
+  const currentSchedule = current ? schedules[current.englishKey] : undefined;
+  const recallActive = recallMode !== 'off' && !autoMode;
+  const currentReveal = reveal.key === currentKey ? reveal : EMPTY_REVEAL;
+  const revealStage = recallActive ? currentReveal.stage : FULLY_REVEALED;
+  const revealElapsedMs = recallActive ? currentReveal.elapsedMs : null;
+  const gradeOptions: GradeOptions = { revealMs: revealElapsedMs ?? undefined };
+  const showEnglish = recallMode !== 'chinese-first' || revealStage > 0;
+  const showChinese = recallMode !== 'english-first' || revealStage > 0;
+  const showDetails = revealStage >= FULLY_REVEALED;
+  const queueSummary = useMemo(
+    () => summarizeQueue(vocabKeys, schedules, Date.now()),
+    [vocabKeys, schedules]
+  );
+  const newRemaining = newWordsRemaining(newLog, newPerDay, Date.now());
 
   useEffect(() => {
-    currentIndexRef.current = currentIndex;
-  }, [currentIndex]);
+    currentKeyRef.current = currentKey;
+    cardShownAtRef.current = Date.now();
+  }, [currentKey]);
 
   useEffect(() => {
-    if (!speechSupported) {
-      return;
-    }
+    queueStateRef.current = { schedules, newLog, newPerDay };
+  }, [schedules, newLog, newPerDay]);
 
-    const loadVoices = () => {
-      const available = getVoiceOptions();
-      setVoices(available);
-      setSelectedVoiceURI((prev) => prev || pickDefaultVoice(available, 'en-'));
-      setSelectedChineseVoiceURI((prev) => prev || pickTaiwanVoice(available));
+  const recordEvent = (event: Omit<StudyEvent, 'timestamp'>) => {
+    storeRef.current?.appendEvent({ ...event, timestamp: Date.now() }).catch(() => {
+      // History is best-effort; a failed write should not interrupt studying.
+    });
+  };
+
+  useEffect(() => {
+    let cancelled = false;
+
+    const restore = async () => {
+      const store = await openStudyStore(profileRegistry.activeId);
+      const state = await store.loadState();
+      const storedDecks = await store.listDecks();
+      if (cancelled) {
+        return;
+      }
+
+      storeRef.current = store;
+      const { settings } = state;
+      setSchedules(state.schedules);
+      setNewLog(state.newLog);
+      setCorrections(state.corrections);
+      setAnnotations(state.annotations);
+      setTopicOverrides(state.topicOverrides);
+      setExamAttempts(state.examAttempts);
+      setNewPerDay(settings.newPerDay);
+      setSpeechRate(settings.speechRate);
+      setPlaybackScriptId(settings.playbackScriptId);
+      setCustomScripts(settings.customScripts);
+      setHiddenDomains(settings.hiddenDomains);
+      setChineseScript(settings.chineseScript);
+      setShortcuts(normalizeShortcuts(settings.shortcuts));
+      setRecallMode(settings.recallMode);
+      setTopicFilter(settings.topicFilter.filter(isTopicId));
+      setImportedDecks(storedDecks);
+      const knownDeckIds = new Set([BUNDLED_DECK_ID, ...storedDecks.map((deck) => deck.id)]);
+      const restoredDeckIds = settings.activeDeckIds.filter((id) => knownDeckIds.has(id));
+      setActiveDeckIds(restoredDeckIds.length > 0 ? restoredDeckIds : [BUNDLED_DECK_ID]);
+      if (settings.englishVoiceURI) {
+        setSelectedVoiceURI(settings.englishVoiceURI);
+      }
+      if (settings.chineseVoiceURI) {
+        setSelectedChineseVoiceURI(settings.chineseVoiceURI);
+      }
+      if (settings.currentKey) {
+        setCurrentKey(settings.currentKey);
+        setCurrentKind(classifyKey(settings.currentKey, state.schedules, Date.now()));
+      }
+      setStorageReady(true);
     };
 
-    loadVoices();
-    window.speechSynthesis.onvoiceschanged = loadVoices;
+    restore().catch(() => {
+      if (!cancelled) {
+        setStorageReady(true);
+      }
+    });
 
     return () => {
-      window.speechSynthesis.onvoiceschanged = null;
+      cancelled = true;
     };
-  }, [speechSupported]);
+  }, []);
+
+  useEffect(() => {
+    if (!storageReady || !storeRef.current) {
+      return;
+    }
+
+    storeRef.current
+      .saveState({
+        version: STATE_VERSION,
+        settings: {
+          englishVoiceURI: selectedVoiceURI,
+          chineseVoiceURI: selectedChineseVoiceURI,
+          speechRate,
+          newPerDay,
+          currentKey: current?.englishKey ?? '',
+          playbackScriptId,
+          customScripts,
+          activeDeckIds,
+          hiddenDomains,
+          chineseScript,
+          shortcuts,
+          recallMode,
+          topicFilter,
+        },
+        schedules,
+        newLog,
+        corrections,
+        annotations,
+        topicOverrides,
+        examAttempts,
+      })
+      .catch(() => {
+        // Keep the in-memory session usable even if the write is rejected.
+      });
+  }, [
+    storageReady,
+    selectedVoiceURI,
+    selectedChineseVoiceURI,
+    speechRate,
+    newPerDay,
+    current,
+    playbackScriptId,
+    customScripts,
+    activeDeckIds,
+    hiddenDomains,
+    chineseScript,
+    shortcuts,
+    recallMode,
+    topicFilter,
+    schedules,
+    newLog,
+    corrections,
+    annotations,
+    topicOverrides,
+    examAttempts,
+  ]);
+
+  useEffect(() => {
+    if (!storageReady || !current) {
+      return;
+    }
+
+    recordEvent({ type: 'view', key: current.englishKey });
+  }, [storageReady, current]);
+
+  useEffect(() => {
+    const loadVoices = () => setVoices(speech.getVoices());
+    loadVoices();
+    return speech.onVoicesChanged(loadVoices);
+  }, []);
 
   useEffect(() => {
     const controller = new AbortController();
@@ -267,23 +507,119 @@ export default function App() {
           signal: controller.signal,
         });
         if (!response.ok) {
-          return;
+          throw new Error(`the server responded with ${response.status}.`);
         }
         const data = (await response.json()) as DictionaryMap;
         setDictionary(data);
+        setDictionaryError(null);
       } catch (error) {
-        // Ignore dictionary load errors.
+        if (controller.signal.aborted) {
+          return;
+        }
+        setDictionaryError(
+          !navigator.onLine
+            ? 'it has not been downloaded for offline use yet.'
+            : error instanceof Error && error.message.startsWith('the server')
+              ? error.message
+              : 'the download failed.'
+        );
       }
     };
 
     loadDictionary();
 
     return () => controller.abort();
+  }, [dictionaryAttempt]);
+
+  useEffect(() => {
+    const handleOnline = () => setOnline(true);
+    const handleOffline = () => setOnline(false);
+    window.addEventListener('online', handleOnline);
+    window.addEventListener('offline', handleOffline);
+    return () => {
+      window.removeEventListener('online', handleOnline);
+      window.removeEventListener('offline', handleOffline);
+    };
   }, []);
 
-  const voiceMap = useMemo(() => {
-    return new Map(voices.map((voice) => [voice.voiceURI, voice]));
-  }, [voices]);
+  useEffect(() => {
+    if (online && dictionaryError) {
+      setDictionaryAttempt((prev) => prev + 1);
+    }
+  }, [online, dictionaryError]);
+
+  useEffect(
+    () =>
+      registerServiceWorker({
+        onOfflineReady: () => setOfflineReady(true),
+        onUpdateAvailable: (apply) => setApplyUpdate(() => apply),
+      }),
+    []
+  );
+
+  useEffect(() => {
+    const controller = new AbortController();
+    const loadExamples = async () => {
+      try {
+        const response = await fetch(`${import.meta.env.BASE_URL}dict/examples.json`, {
+          signal: controller.signal,
+        });
+        if (!response.ok) {
+          return;
+        }
+        setExamples((await response.json()) as ExampleMap);
+      } catch (error) {
+        // Example sentences are optional; cards simply omit them.
+      }
+    };
+
+    loadExamples();
+
+    return () => controller.abort();
+  }, []);
+
+  useEffect(() => {
+    if (chineseScript === 'simplified' || toTraditional) {
+      return;
+    }
+
+    let cancelled = false;
+    loadTraditionalConverter()
+      .then((convert) => {
+        if (!cancelled) {
+          setToTraditional(() => convert);
+        }
+      })
+      .catch(() => {
+        // Fall back to the original Simplified text if the converter fails to load.
+      });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [chineseScript, toTraditional]);
+
+  const englishVoices = useMemo(() => voicesFor(voices, 'en-US'), [voices]);
+  const chineseVoices = useMemo(() => voicesFor(voices, 'zh-TW'), [voices]);
+
+  // Boundary events drive the highlight; it clears once the utterance ends or is cancelled.
+  const speakText = async (
+    text: string,
+    lang: SpeechLang,
+    { key, rate = speechRate, queue = false }: SpeakTextOptions
+  ) => {
+    if (!speechSupported) {
+      return;
+    }
+
+    if (!queue) {
+      speech.cancel();
+    }
+    recordEvent({ type: 'audio', key, lang });
+    const voiceURI = lang === 'zh-TW' ? selectedChineseVoiceURI : selectedVoiceURI;
+    await speech.speak(text, { lang, voiceURI, rate, onBoundary: setSpoken });
+    setSpoken((prev) => (prev?.text === text ? null : prev));
+  };
 
   useEffect(() => {
     if (!autoMode || !speechSupported || total === 0) {
@@ -292,63 +628,93 @@ export default function App() {
 
     let cancelled = false;
 
+    const control = autoControlRef.current;
+    control.paused = false;
+    control.back = false;
+    setAutoPaused(false);
+
+    const waitWhilePaused = async () => {
+      while (control.paused && !cancelled) {
+        await wait(150);
+      }
+    };
+
+    const runStep = async (step: PlaybackStep, item: VocabItem) => {
+      if (step.kind === 'pause') {
+        await wait(clampPause(step.ms / speechRate));
+        return;
+      }
+
+      const text = playbackText(item, step.field, {
+        definition: (raw) =>
+          toDisplayChinese(summarizeDefinition(raw, hiddenDomains), chineseScript, toTraditional),
+        example: (target) => findExamples(examples, target)?.sentences[0] ?? '',
+      });
+      if (!text) {
+        return;
+      }
+
+      const english = step.field === 'english' || step.field === 'example';
+      await speakText(text, english ? 'en-US' : 'zh-TW', { key: item.englishKey, queue: true });
+    };
+
     const runSequence = async () => {
-      let index = currentIndexRef.current;
+      let key = currentKeyRef.current;
+      let queue: QueueEntry[] = [];
+      let position = 0;
+      let stepIndex = 0;
+      const history: string[] = [];
 
       while (!cancelled) {
-        const item = vocabItems[index];
+        const item = vocabByKey.get(key);
         if (!item) {
           break;
         }
 
-        window.speechSynthesis.cancel();
-        await speakText(
-          item.english,
-          'en-US',
-          voiceMap,
-          selectedVoiceURI,
-          speechSupported,
-          speechRate
-        );
-        if (cancelled) break;
-        await wait(clampPause(700 / speechRate));
-        if (cancelled) break;
-        await speakText(
-          item.chinese,
-          'zh-TW',
-          voiceMap,
-          selectedChineseVoiceURI,
-          speechSupported,
-          speechRate
-        );
-        if (cancelled) break;
-        await wait(clampPause(700 / speechRate));
-        if (cancelled) break;
-        await speakText(
-          item.english,
-          'en-US',
-          voiceMap,
-          selectedVoiceURI,
-          speechSupported,
-          speechRate
-        );
-        if (cancelled) break;
-        await wait(clampPause(700 / speechRate));
-        if (cancelled) break;
-        await speakText(
-          item.chinese,
-          'zh-TW',
-          voiceMap,
-          selectedChineseVoiceURI,
-          speechSupported,
-          speechRate
-        );
-        if (cancelled) break;
-        await wait(clampPause(900 / speechRate));
+        await waitWhilePaused();
         if (cancelled) break;
 
-        index = pickNextIndex(index, total);
-        setCurrentIndex(index);
+        if (control.back) {
+          control.back = false;
+          if (stepIndex <= 1 && history.length > 0) {
+            key = history.pop() ?? key;
+            setCurrentKey(key);
+            setCurrentKind(classifyKey(key, queueStateRef.current.schedules, Date.now()));
+          }
+          stepIndex = 0;
+          continue;
+        }
+
+        if (stepIndex < playbackSteps.length) {
+          setAutoStep(stepIndex);
+          await runStep(playbackSteps[stepIndex], item);
+          if (cancelled) break;
+          if (!control.paused && !control.back) {
+            stepIndex += 1;
+          }
+          continue;
+        }
+
+        if (position >= queue.length) {
+          const { schedules: latest, newLog: log, newPerDay: limit } = queueStateRef.current;
+          queue = buildStudyQueue(vocabKeys, latest, {
+            now: Date.now(),
+            newPerDay: limit,
+            newLog: log,
+          });
+          position = 0;
+        }
+        const entry = pickNextEntry(queue.slice(position), item.englishKey);
+        if (!entry) {
+          setAutoMode(false);
+          break;
+        }
+        position = queue.indexOf(entry) + 1;
+        history.push(key);
+        key = entry.key;
+        stepIndex = 0;
+        setCurrentKey(key);
+        setCurrentKind(entry.kind);
       }
     };
 
@@ -356,84 +722,347 @@ export default function App() {
 
     return () => {
       cancelled = true;
-      window.speechSynthesis.cancel();
+      speech.cancel();
     };
-  }, [autoMode, selectedVoiceURI, selectedChineseVoiceURI, speechRate, speechSupported, total, voiceMap]);
+  }, [
+    autoMode,
+    chineseScript,
+    examples,
+    hiddenDomains,
+    playbackSteps,
+    selectedVoiceURI,
+    selectedChineseVoiceURI,
+    speechRate,
+    speechSupported,
+    toTraditional,
+    total,
+    vocabByKey,
+    vocabKeys,
+  ]);
+
+  const showNextEntry = (nextSchedules: ScheduleMap, nextLog: NewWordLog, excludeKey?: string) => {
+    const queue = buildStudyQueue(vocabKeys, nextSchedules, {
+      now: Date.now(),
+      newPerDay,
+      newLog: nextLog,
+    });
+    const entry = pickNextEntry(queue, excludeKey);
+    if (!entry) {
+      setCurrentKind(null);
+      return;
+    }
+
+    setCurrentKey(entry.key);
+    setCurrentKind(entry.kind);
+    setReveal(EMPTY_REVEAL);
+    cardShownAtRef.current = Date.now();
+  };
+
+  useEffect(() => {
+    if (current || vocabKeys.length === 0) {
+      return;
+    }
+
+    const entry = pickNextEntry(
+      buildStudyQueue(vocabKeys, queueStateRef.current.schedules, {
+        now: Date.now(),
+        newPerDay: queueStateRef.current.newPerDay,
+        newLog: queueStateRef.current.newLog,
+      })
+    );
+    setCurrentKey(entry?.key ?? vocabKeys[0]);
+    setCurrentKind(entry?.kind ?? null);
+  }, [current, vocabKeys]);
 
   const handleNext = () => {
-    if (!total) {
+    if (!current) {
       return;
     }
 
-    setCurrentIndex((index) => pickNextIndex(index, total));
+    showNextEntry(schedules, newLog, current.englishKey);
   };
 
-  const handleSpeakEnglish = () => {
-    if (!current || !speechSupported) {
+  const handleGrade = (grade: ReviewGrade) => {
+    if (!current) {
       return;
     }
 
-    window.speechSynthesis.cancel();
-    const utterance = new SpeechSynthesisUtterance(current.english);
-    utterance.lang = 'en-US';
-    utterance.rate = speechRate;
-    const voice = resolveVoice(voiceMap, selectedVoiceURI);
-    if (voice) {
-      utterance.voice = voice;
+    const now = Date.now();
+    const nextSchedules = {
+      ...schedules,
+      [current.englishKey]: gradeCard(currentSchedule, grade, now, gradeOptions),
+    };
+    const nextLog = currentSchedule ? newLog : recordNewWord(newLog, now);
+    setSchedules(nextSchedules);
+    setNewLog(nextLog);
+    recordEvent({
+      type: 'grade',
+      key: current.englishKey,
+      grade,
+      elapsedMs: gradeOptions.revealMs,
+    });
+    showNextEntry(nextSchedules, nextLog, current.englishKey);
+  };
+
+  const handleReveal = () => {
+    if (!current || revealStage >= FULLY_REVEALED) {
+      return;
+    }
+
+    const elapsedMs = revealElapsedMs ?? Date.now() - cardShownAtRef.current;
+    setReveal({
+      key: current.englishKey,
+      stage: (revealStage + 1) as RevealStage,
+      elapsedMs,
+    });
+    if (revealStage === 0) {
+      recordEvent({ type: 'reveal', key: current.englishKey, elapsedMs });
     }
-    window.speechSynthesis.speak(utterance);
   };
 
-  const handleSpeakChinese = () => {
-    if (!current || !speechSupported) {
+  const handlePracticeAnswer = (
+    type: PracticeType | 'exam',
+    item: VocabItem,
+    correct: boolean
+  ) => {
+    recordEvent({ type, key: item.englishKey, correct });
+    if (correct) {
       return;
     }
 
-    window.speechSynthesis.cancel();
-    const utterance = new SpeechSynthesisUtterance(current.chinese);
-    utterance.lang = 'zh-TW';
-    utterance.rate = speechRate;
-    const voice = resolveVoice(voiceMap, selectedChineseVoiceURI);
-    if (voice) {
-      utterance.voice = voice;
+    const now = Date.now();
+    setSchedules((prev) =>
+      prev[item.englishKey]
+        ? { ...prev, [item.englishKey]: gradeCard(prev[item.englishKey], 'again', now) }
+        : prev
+    );
+  };
+
+  const handleExamFinished = (
+    attempt: ExamAttempt,
+    questions: ExamQuestion[],
+    answers: (number | null)[]
+  ) => {
+    setExamAttempts((prev) => addExamAttempt(prev, attempt));
+    questions.forEach((question, index) => {
+      handlePracticeAnswer('exam', question.item, answers[index] === question.answerIndex);
+    });
+  };
+
+  const handleSpeakHeadword = (item: VocabItem, { slow = false }: { slow?: boolean } = {}) => {
+    speakText(item.englishKey, 'en-US', {
+      key: item.englishKey,
+      rate: slow ? slowRate(speechRate) : speechRate,
+    });
+  };
+
+  const handleSpeakSentence = (item: VocabItem, sentence: string) => {
+    speakText(sentence, 'en-US', { key: item.englishKey });
+  };
+
+  const handleSpeakExample = () => {
+    const sentence = currentExamples?.sentences[0];
+    if (current && sentence) {
+      handleSpeakSentence(current, sentence);
+    }
+  };
+
+  const handleSelectWord = (item: VocabItem) => {
+    if (!scopedKeys.has(item.englishKey)) {
+      setTopicFilter([]);
+    }
+    setCurrentKey(item.englishKey);
+    setCurrentKind(classifyKey(item.englishKey, schedules, Date.now()));
+    setMode('cards');
+  };
+
+  const handleImportDeck = (deck: Deck) => {
+    setImportedDecks((prev) => [...prev, deck]);
+    storeRef.current?.saveDeck(deck).catch(() => {
+      // The deck stays available for this session even if it cannot be stored.
+    });
+  };
+
+  const handleDeleteDeck = (id: string) => {
+    setImportedDecks((prev) => prev.filter((deck) => deck.id !== id));
+    setActiveDeckIds((prev) => {
+      const next = prev.filter((deckId) => deckId !== id);
+      return next.length > 0 ? next : [BUNDLED_DECK_ID];
+    });
+    storeRef.current?.deleteDeck(id).catch(() => {
+      // If the delete fails the deck simply reappears on the next load.
+    });
+  };
+
+  const handleExportDeck = (deck: Deck) => {
+    downloadFile(
+      `${deck.name}.csv`,
+      serializeVocabCsv(applyCorrections(deck.items, corrections), annotations),
+      'text/csv;charset=utf-8'
+    );
+  };
+
+  const handleActiveDecksChange = (ids: string[]) => {
+    setAutoMode(false);
+    setActiveDeckIds(ids.length > 0 ? ids : [BUNDLED_DECK_ID]);
+  };
+
+  const handleDecideCorrection = (key: string, correction: Correction) => {
+    setCorrections((prev) => ({ ...prev, [key]: correction }));
+  };
+
+  const handleUndoCorrection = (key: string) => {
+    setCorrections((prev) => {
+      const { [key]: _removed, ...rest } = prev;
+      return rest;
+    });
+  };
+
+  const handleAnnotate = (key: string, patch: Partial<Omit<WordAnnotation, 'updatedAt'>>) => {
+    setAnnotations((prev) => updateAnnotation(prev, key, patch));
+  };
+
+  const handleSetTopics = (key: string, topics: TopicId[] | null) => {
+    setTopicOverrides((prev) => {
+      const { [key]: _previous, ...rest } = prev;
+      return topics ? { ...rest, [key]: topics } : rest;
+    });
+  };
+
+  const handleProfilesChange = (registry: ProfileRegistry) => {
+    setProfileRegistry(registry);
+    saveProfileRegistry(registry);
+  };
+
+  // Every piece of study state hangs off the open store, so a fresh load is the clean switch.
+  const handleSwitchProfile = (id: string) => {
+    if (id === profileRegistry.activeId) {
+      return;
+    }
+    setAutoMode(false);
+    if (saveProfileRegistry({ ...profileRegistry, activeId: id })) {
+      window.location.reload();
+    }
+  };
+
+  const handleModeChange = (nextMode: StudyMode) => {
+    setAutoMode(false);
+    setMode(nextMode);
+  };
+
+  const handleSpeakEnglish = () => {
+    if (current) {
+      speakText(current.english, 'en-US', { key: current.englishKey });
+    }
+  };
+
+  const handleSpeakChinese = () => {
+    if (current) {
+      speakText(current.chinese, 'zh-TW', { key: current.englishKey });
     }
-    window.speechSynthesis.speak(utterance);
   };
 
   const handleToggleAuto = () => {
     setAutoMode((prev) => !prev);
   };
 
-  const handleLookup = () => {
-    if (!dictionaryReady) {
-      setLookupResult(null);
-      setLookupMessage('Dictionary is still loading.');
-      return;
+  const handlePauseAuto = () => {
+    const control = autoControlRef.current;
+    control.paused = !control.paused;
+    setAutoPaused(control.paused);
+    if (control.paused) {
+      speech.cancel();
     }
+  };
+
+  const handleSkipBack = () => {
+    autoControlRef.current.back = true;
+    speech.cancel();
+  };
 
-    const key = normalizeLookup(lookupTerm);
-    if (!key) {
-      setLookupResult(null);
-      setLookupMessage('Enter a word to look up.');
+  const handleSaveScript = (script: PlaybackScript) => {
+    setCustomScripts((prev) => [...prev, script]);
+    setPlaybackScriptId(script.id);
+  };
+
+  const handleDeleteScript = (id: string) => {
+    setCustomScripts((prev) => prev.filter((script) => script.id !== id));
+    setPlaybackScriptId(DEFAULT_SCRIPT_ID);
+  };
+
+  const handleToggleDomain = (domain: string) => {
+    setHiddenDomains((prev) =>
+      prev.includes(domain) ? prev.filter((item) => item !== domain) : [...prev, domain]
+    );
+  };
+
+  const handleLookup = (key: string, found: boolean) => {
+    recordEvent({ type: 'lookup', key, found });
+  };
+
+  const runShortcut = (action: ShortcutAction) => {
+    if (action === 'show-shortcuts') {
+      setShortcutsOpen(true);
       return;
     }
-
-    const entry = dictionary[key];
-    if (!entry) {
-      setLookupResult(null);
-      setLookupMessage('No dictionary match found.');
+    if (action === 'focus-lookup') {
+      lookupInputRef.current?.focus();
+      return;
+    }
+    if (mode !== 'cards' || !current) {
       return;
     }
 
-    setLookupResult(entry);
-    setLookupMessage('');
+    const grade = REVIEW_GRADES.find((value) => gradeShortcuts[value] === action);
+    const canSpeak = speechSupported && !autoMode;
+    if (grade && !autoMode && revealStage > 0) {
+      handleGrade(grade);
+    } else if (action === 'next' && recallActive && revealStage < FULLY_REVEALED) {
+      handleReveal();
+    } else if (action === 'next' && !autoMode) {
+      handleNext();
+    } else if (action === 'speak-english' && canSpeak) {
+      handleSpeakEnglish();
+    } else if (action === 'speak-chinese' && canSpeak) {
+      handleSpeakChinese();
+    } else if (action === 'speak-example' && canSpeak && currentExamples) {
+      handleSpeakExample();
+    } else if (action === 'toggle-auto' && speechSupported) {
+      handleToggleAuto();
+    } else if (action === 'pause-auto' && autoMode) {
+      handlePauseAuto();
+    } else if (action === 'auto-back' && autoMode) {
+      handleSkipBack();
+    }
   };
 
-  const handleLookupKeyDown = (event: KeyboardEvent<HTMLInputElement>) => {
-    if (event.key === 'Enter') {
-      handleLookup();
+  useEffect(() => {
+    shortcutHandlerRef.current = runShortcut;
+  });
+
+  useEffect(() => {
+    if (shortcutsOpen) {
+      return;
     }
-  };
+
+    const handleKeyDown = (event: KeyboardEvent) => {
+      const key = keyFromEvent(event);
+      if (!key || event.defaultPrevented || isEditableTarget(event.target, key)) {
+        return;
+      }
+      const action = findShortcut(shortcuts, key);
+      if (!action) {
+        return;
+      }
+      event.preventDefault();
+      shortcutHandlerRef.current(action);
+    };
+
+    window.addEventListener('keydown', handleKeyDown);
+    return () => window.removeEventListener('keydown', handleKeyDown);
+  }, [shortcuts, shortcutsOpen]);
+
+  const shortcutHint = (action: ShortcutAction) => `Shortcut: ${formatKey(shortcuts[action])}`;
 
   return (
     <div className="min-h-screen">
@@ -446,97 +1075,513 @@ export default function App() {
             Study a new word with a calm, Muji-inspired palette.
           </h1>
           <p className="text-sm text-muji-ink/70">
-            {total ? `${currentIndex + 1} / ${total} words` : 'No vocabulary loaded yet.'}
+            {total
+              ? `${queueSummary.due} due · ${Math.min(newRemaining, queueSummary.unseen)} new left today · ${total} words`
+              : 'No vocabulary loaded yet.'}
           </p>
+          <AppStatusBanner
+            online={online}
+            offlineReady={offlineReady}
+            dictionaryError={dictionaryError}
+            onApplyUpdate={applyUpdate}
+            onRetryDictionary={() => setDictionaryAttempt((prev) => prev + 1)}
+            onDismissOfflineReady={() => setOfflineReady(false)}
+          />
+          <ProfileSwitcher
+            registry={profileRegistry}
+            onSwitch={handleSwitchProfile}
+            onManage={() => handleModeChange('decks')}
+          />
+          <nav className="flex flex-wrap gap-2 pt-2">
+            {(Object.keys(modeLabels) as StudyMode[]).map((value) => (
+              <button
+                key={value}
+                className={`rounded-full border px-5 py-2 text-sm font-semibold transition focus-visible:outline-none focus-visible:ring-2 focus-visible:ring-muji-accent/40 ${
+                  mode === value
+                    ? 'border-muji-accent bg-muji-accent text-white shadow-soft'
+                    : 'border-muji-wood/60 bg-white/60 text-muji-ink hover:bg-white'
+                }`}
+                onClick={() => handleModeChange(value)}
+                type="button"
+              >
+                {modeLabels[value]}
+              </button>
+            ))}
+            <button
+              className="rounded-full border border-transparent px-4 py-2 text-sm text-muji-ink/60 transition hover:text-muji-ink focus-visible:outline-none focus-visible:ring-2 focus-visible:ring-muji-accent/40"
+              onClick={() => setShortcutsOpen(true)}
+              type="button"
+              title={shortcutHint('show-shortcuts')}
+            >
+              Shortcuts
+            </button>
+          </nav>
+          <TopicScope
+            progress={topicProgress}
+            selected={topicFilter}
+            scopedCount={scopedItems.length}
+            onToggle={(topic) => setTopicFilter((prev) => toggleTopic(prev, topic))}
+            onClear={() => setTopicFilter([])}
+          />
         </header>
 
         <section className="mt-10 flex-1">
-          <div className="rounded-3xl border border-muji-wood/50 bg-muji-card p-6 shadow-soft sm:p-10">
-            {current ? (
-              <div className="space-y-8">
-                <div>
-                  <p className="text-xs font-semibold uppercase tracking-[0.3em] text-muji-accent">
-                    English
-                  </p>
-                  <p className="mt-3 text-3xl font-semibold text-muji-ink sm:text-4xl">
-                    {current.english}
-                  </p>
-                </div>
-                <div>
-                  <div className="flex flex-wrap items-center gap-3">
-                    <p className="text-xs font-semibold uppercase tracking-[0.3em] text-muji-accent">
-                      Chinese Meaning
-                    </p>
-                    {current.checkStatus && current.checkStatus !== 'OK' && (
-                      <span className="rounded-full border border-amber-300/70 bg-amber-100/70 px-3 py-1 text-[11px] font-semibold uppercase tracking-[0.2em] text-amber-700">
-                        Possible error
+          {mode === 'decks' ? (
+            <div className="space-y-8">
+              <DeckManager
+                decks={decks}
+                activeIds={activeDeckIds}
+                onActiveChange={handleActiveDecksChange}
+                onImport={handleImportDeck}
+                onDelete={handleDeleteDeck}
+                onExport={handleExportDeck}
+              />
+              <ProfileManager
+                registry={profileRegistry}
+                onChange={handleProfilesChange}
+                onSwitch={handleSwitchProfile}
+              />
+              <BackupPanel
+                store={storageReady ? storeRef.current : null}
+                profile={findProfile(profileRegistry, profileRegistry.activeId)}
+                onRestored={() => window.location.reload()}
+              />
+            </div>
+          ) : mode === 'stats' ? (
+            <StatsDashboard
+              store={storageReady ? storeRef.current : null}
+              schedules={schedules}
+              items={vocabItems}
+            />
+          ) : mode === 'exam' ? (
+            <ExamMode
+              items={scopedItems}
+              distractorPool={vocabItems}
+              relations={relations}
+              byKey={vocabByKey}
+              examples={examples}
+              attempts={examAttempts}
+              speechSupported={speechSupported}
+              onSpeak={handleSpeakHeadword}
+              onStopSpeaking={() => speech.cancel()}
+              onFinish={handleExamFinished}
+              onSelect={handleSelectWord}
+            />
+          ) : mode === 'review' ? (
+            <FlaggedReview
+              items={sourceItems}
+              corrections={corrections}
+              hiddenDomains={hiddenDomains}
+              chineseScript={chineseScript}
+              toTraditional={toTraditional}
+              onDecide={handleDecideCorrection}
+              onUndo={handleUndoCorrection}
+            />
+          ) : mode === 'list' ? (
+            <WordList
+              items={scopedItems}
+              schedules={schedules}
+              annotations={annotations}
+              onSelect={handleSelectWord}
+            />
+          ) : isPracticeMode(mode) ? (
+            <div className="space-y-4">
+              <div className="flex flex-wrap items-center justify-end gap-3">
+                <span className="text-xs font-semibold uppercase tracking-[0.2em] text-muji-ink/60">
+                  Practice
+                </span>
+                <AnnotationFilterSelect
+                  value={practiceFilter}
+                  tags={knownTags}
+                  onChange={setPracticeFilter}
+                />
+                <span className="text-sm text-muji-ink/70">{practiceItems.length} words</span>
+              </div>
+              {practiceItems.length === 0 ? (
+                <p className="rounded-3xl border border-muji-wood/50 bg-muji-card p-6 text-sm text-muji-ink/70 shadow-soft sm:p-10">
+                  No words match this filter yet. Star or tag words on their flashcards first.
+                </p>
+              ) : mode === 'cloze' ? (
+                <ClozeMode
+                  key={practiceFilter}
+                  items={practiceItems}
+                  examples={examples}
+                  speechSupported={speechSupported}
+                  onSpeak={handleSpeakSentence}
+                  knownWords={knownWords}
+                  onAnswer={(item, correct) => handlePracticeAnswer('cloze', item, correct)}
+                />
+              ) : mode === 'forms' ? (
+                <FormsMode
+                  key={practiceFilter}
+                  items={practiceItems}
+                  relations={relations}
+                  byKey={vocabByKey}
+                  examples={examples}
+                  onAnswer={(item, correct) => handlePracticeAnswer('forms', item, correct)}
+                />
+              ) : mode === 'quiz' ? (
+                <QuizMode
+                  key={practiceFilter}
+                  items={practiceItems}
+                  distractorPool={vocabItems}
+                  onAnswer={(item, correct) => handlePracticeAnswer('quiz', item, correct)}
+                />
+              ) : (
+                <TypingMode
+                  key={`${mode}-${practiceFilter}`}
+                  variant={mode}
+                  items={practiceItems}
+                  speechSupported={speechSupported}
+                  onSpeak={handleSpeakHeadword}
+                  onStopSpeaking={() => speech.cancel()}
+                  knownWords={knownWords}
+                  onAnswer={(item, correct) => handlePracticeAnswer(mode, item, correct)}
+                />
+              )}
+            </div>
+          ) : (
+            <div className="rounded-3xl border border-muji-wood/50 bg-muji-card p-6 shadow-soft sm:p-10">
+              {current ? (
+                <div className="flex flex-col gap-8">
+                  <div>
+                    <div className="flex flex-wrap items-center gap-3">
+                      <p className="text-xs font-semibold uppercase tracking-[0.3em] text-muji-accent">
+                        English
+                      </p>
+                      <span className="rounded-full border border-muji-wood/50 bg-muji-paper px-3 py-1 text-[11px] font-semibold uppercase tracking-[0.2em] text-muji-ink/70">
+                        {currentKind ? queueKindLabels[currentKind] : 'All caught up'}
                       </span>
+                      {currentSchedule && currentSchedule.lapses > 0 && (
+                        <span className="text-[11px] text-muji-ink/60">
+                          {currentSchedule.lapses} lapse{currentSchedule.lapses === 1 ? '' : 's'}
+                        </span>
+                      )}
+                    </div>
+                    {showEnglish ? (
+                      <p className="mt-3 text-3xl font-semibold text-muji-ink sm:text-4xl">
+                        <SpokenText text={current.english} spoken={spoken} />
+                      </p>
+                    ) : (
+                      <p className="mt-3 text-3xl font-semibold text-muji-ink/20 sm:text-4xl">
+                        ···
+                      </p>
                     )}
                   </div>
-                  <p className="mt-2 text-xl text-muji-ink/90 sm:text-2xl">
-                    {current.chinese}
-                  </p>
-                  {(current.ecdictZh || current.ecdictPos) && (
-                    <div className="mt-4 rounded-2xl border border-muji-wood/40 bg-white/60 px-4 py-3">
-                      <div className="flex flex-wrap items-center gap-2 text-[11px] font-semibold uppercase tracking-[0.25em] text-muji-accent">
-                        <span>Dictionary</span>
-                        {current.ecdictPos && (
-                          <span className="rounded-full border border-muji-wood/50 bg-muji-paper px-2 py-1 text-[10px] text-muji-ink">
-                            {current.ecdictPos}
-                          </span>
+                  <div className={recallMode === 'chinese-first' ? 'order-first' : undefined}>
+                    <div className="flex flex-wrap items-center gap-3">
+                      <p className="text-xs font-semibold uppercase tracking-[0.3em] text-muji-accent">
+                        Chinese Meaning
+                      </p>
+                      {isFlagged(current) && (
+                        <span className="rounded-full border border-amber-300/70 bg-amber-100/70 px-3 py-1 text-[11px] font-semibold uppercase tracking-[0.2em] text-amber-700">
+                          Possible error
+                        </span>
+                      )}
+                    </div>
+                    {showChinese ? (
+                      <p className="mt-2 text-xl text-muji-ink/90 sm:text-2xl">
+                        <SpokenText text={current.chinese} spoken={spoken} />
+                      </p>
+                    ) : (
+                      <p className="mt-2 text-xl text-muji-ink/20 sm:text-2xl">···</p>
+                    )}
+                    {showDetails && (current.ecdictZh || current.ecdictPos) && (
+                      <div className="mt-4 rounded-2xl border border-muji-wood/40 bg-white/60 px-4 py-3">
+                        <div className="flex flex-wrap items-center gap-2 text-[11px] font-semibold uppercase tracking-[0.25em] text-muji-accent">
+                          <span>Dictionary</span>
+                          {current.ecdictPos && (
+                            <span className="rounded-full border border-muji-wood/50 bg-muji-paper px-2 py-1 text-[10px] text-muji-ink">
+                              {current.ecdictPos}
+                            </span>
+                          )}
+                        </div>
+                        {current.ecdictZh && (
+                          <div className="mt-2">
+                            <DefinitionList
+                              text={current.ecdictZh}
+                              hiddenDomains={hiddenDomains}
+                              script={chineseScript}
+                              toTraditional={toTraditional}
+                            />
+                          </div>
                         )}
                       </div>
-                      {current.ecdictZh && (
-                        <p className="mt-2 text-sm text-muji-ink/80">
-                          {current.ecdictZh}
-                        </p>
+                    )}
+                  </div>
+                  {recallActive && (
+                    <div className="flex flex-wrap items-center gap-3">
+                      {revealStage < FULLY_REVEALED && (
+                        <button
+                          className="rounded-full border border-dashed border-muji-accent/60 bg-muji-accent/5 px-6 py-3 text-sm font-semibold text-muji-ink transition hover:bg-muji-accent/10 focus-visible:outline-none focus-visible:ring-2 focus-visible:ring-muji-accent/50"
+                          onClick={handleReveal}
+                          type="button"
+                          title={shortcutHint('next')}
+                        >
+                          {revealLabel(recallMode, revealStage)}
+                        </button>
+                      )}
+                      {revealElapsedMs !== null && (
+                        <span className="text-xs text-muji-ink/60">
+                          Recalled in {formatRevealTime(revealElapsedMs)}
+                          {revealElapsedMs > SLOW_RECALL_MS &&
+                            ' · slow recall shortens the next interval'}
+                        </span>
                       )}
                     </div>
                   )}
+                  {showDetails && (
+                    <RelatedWords
+                      family={relatedItems(relations.families, current.englishKey, vocabByKey)}
+                      confusables={relatedItems(
+                        relations.confusables,
+                        current.englishKey,
+                        vocabByKey
+                      )}
+                      onSelect={handleSelectWord}
+                    />
+                  )}
+                  {showDetails && currentExamples && (
+                    <ExamplePanel
+                      term={current.englishKey}
+                      entry={currentExamples}
+                      speechSupported={speechSupported && !autoMode}
+                      spoken={spoken}
+                      onSpeak={(sentence) => handleSpeakSentence(current, sentence)}
+                    />
+                  )}
+                  {showDetails && (
+                    <AnnotationEditor
+                      key={current.englishKey}
+                      annotation={annotations[current.englishKey]}
+                      knownTags={knownTags}
+                      onChange={(patch) => handleAnnotate(current.englishKey, patch)}
+                    />
+                  )}
+                  {showDetails && (
+                    <TopicEditor
+                      topics={topicsFor(topicIndex, current.englishKey)}
+                      overridden={current.englishKey in topicOverrides}
+                      onChange={(topics) => handleSetTopics(current.englishKey, topics)}
+                    />
+                  )}
                 </div>
-              </div>
-            ) : (
-              <p className="text-lg text-muji-ink/70">
-                No entries available. Check the CSV file for valid rows.
-              </p>
-            )}
-          </div>
+              ) : (
+                <p className="text-lg text-muji-ink/70">
+                  {topicFilter.length > 0
+                    ? 'No words in the selected topics yet.'
+                    : 'No entries available. Check the CSV file for valid rows.'}
+                </p>
+              )}
+            </div>
+          )}
 
           <div className="mt-8 flex flex-col gap-4">
-            <div className="flex flex-col gap-3 sm:flex-row">
-              <button
-                className="rounded-full bg-muji-accent px-6 py-3 text-sm font-semibold text-white shadow-soft transition hover:bg-muji-accent/90 focus-visible:outline-none focus-visible:ring-2 focus-visible:ring-muji-accent/50 disabled:cursor-not-allowed disabled:opacity-60"
-                onClick={handleNext}
-                type="button"
-                disabled={!current || autoMode}
-              >
-                Next Random
-              </button>
-              <button
-                className="rounded-full border border-muji-wood/60 bg-white/70 px-6 py-3 text-sm font-semibold text-muji-ink shadow-soft transition hover:bg-white focus-visible:outline-none focus-visible:ring-2 focus-visible:ring-muji-wood/60 disabled:cursor-not-allowed disabled:opacity-60"
-                onClick={handleSpeakEnglish}
-                type="button"
-                disabled={!current || !speechSupported || autoMode}
-              >
-                Read English
-              </button>
-              <button
-                className="rounded-full border border-muji-wood/60 bg-white/70 px-6 py-3 text-sm font-semibold text-muji-ink shadow-soft transition hover:bg-white focus-visible:outline-none focus-visible:ring-2 focus-visible:ring-muji-wood/60 disabled:cursor-not-allowed disabled:opacity-60"
-                onClick={handleSpeakChinese}
-                type="button"
-                disabled={!current || !speechSupported || autoMode}
-              >
-                Read Chinese
-              </button>
-              <button
-                className="rounded-full border border-muji-accent/50 bg-muji-accent/10 px-6 py-3 text-sm font-semibold text-muji-ink shadow-soft transition hover:bg-muji-accent/20 focus-visible:outline-none focus-visible:ring-2 focus-visible:ring-muji-accent/50 disabled:cursor-not-allowed disabled:opacity-60"
-                onClick={handleToggleAuto}
-                type="button"
-                disabled={!current || !speechSupported}
-              >
-                {autoMode ? 'Stop Auto' : 'Auto Mode'}
-              </button>
+            {mode === 'cards' && (
+              <>
+                <div className="grid grid-cols-2 gap-3 sm:grid-cols-4">
+                  {REVIEW_GRADES.map((grade) => (
+                    <button
+                      key={grade}
+                      className="rounded-full bg-muji-accent px-6 py-3 text-sm font-semibold text-white shadow-soft transition hover:bg-muji-accent/90 focus-visible:outline-none focus-visible:ring-2 focus-visible:ring-muji-accent/50 disabled:cursor-not-allowed disabled:opacity-60"
+                      onClick={() => handleGrade(grade)}
+                      type="button"
+                      title={shortcutHint(gradeShortcuts[grade])}
+                      disabled={!current || autoMode || revealStage === 0}
+                    >
+                      {gradeLabels[grade]}
+                      <span className="ml-2 text-xs font-normal text-white/80">
+                        {formatInterval(
+                          gradeCard(currentSchedule, grade, Date.now(), gradeOptions),
+                          Date.now()
+                        )}
+                      </span>
+                    </button>
+                  ))}
+                </div>
+                <div className="flex flex-col gap-3 sm:flex-row">
+                  <button
+                    className="rounded-full border border-muji-wood/60 bg-white/70 px-6 py-3 text-sm font-semibold text-muji-ink shadow-soft transition hover:bg-white focus-visible:outline-none focus-visible:ring-2 focus-visible:ring-muji-wood/60 disabled:cursor-not-allowed disabled:opacity-60"
+                    onClick={handleNext}
+                    type="button"
+                    title={shortcutHint('next')}
+                    disabled={!current || autoMode}
+                  >
+                    Skip
+                  </button>
+                  <button
+                    className="rounded-full border border-muji-wood/60 bg-white/70 px-6 py-3 text-sm font-semibold text-muji-ink shadow-soft transition hover:bg-white focus-visible:outline-none focus-visible:ring-2 focus-visible:ring-muji-wood/60 disabled:cursor-not-allowed disabled:opacity-60"
+                    onClick={handleSpeakEnglish}
+                    type="button"
+                    title={shortcutHint('speak-english')}
+                    disabled={!current || !speechSupported || autoMode}
+                  >
+                    Read English
+                  </button>
+                  <button
+                    className="rounded-full border border-muji-wood/60 bg-white/70 px-6 py-3 text-sm font-semibold text-muji-ink shadow-soft transition hover:bg-white focus-visible:outline-none focus-visible:ring-2 focus-visible:ring-muji-wood/60 disabled:cursor-not-allowed disabled:opacity-60"
+                    onClick={handleSpeakChinese}
+                    type="button"
+                    title={shortcutHint('speak-chinese')}
+                    disabled={!current || !speechSupported || autoMode}
+                  >
+                    Read Chinese
+                  </button>
+                  {currentExamples && currentExamples.sentences.length > 0 && (
+                    <button
+                      className="rounded-full border border-muji-wood/60 bg-white/70 px-6 py-3 text-sm font-semibold text-muji-ink shadow-soft transition hover:bg-white focus-visible:outline-none focus-visible:ring-2 focus-visible:ring-muji-wood/60 disabled:cursor-not-allowed disabled:opacity-60"
+                      onClick={handleSpeakExample}
+                      type="button"
+                      title={shortcutHint('speak-example')}
+                      disabled={!current || !speechSupported || autoMode}
+                    >
+                      Read Example
+                    </button>
+                  )}
+                  <button
+                    className="rounded-full border border-muji-accent/50 bg-muji-accent/10 px-6 py-3 text-sm font-semibold text-muji-ink shadow-soft transition hover:bg-muji-accent/20 focus-visible:outline-none focus-visible:ring-2 focus-visible:ring-muji-accent/50 disabled:cursor-not-allowed disabled:opacity-60"
+                    onClick={handleToggleAuto}
+                    type="button"
+                    title={shortcutHint('toggle-auto')}
+                    disabled={!current || !speechSupported}
+                  >
+                    {autoMode ? 'Stop Auto' : 'Auto Mode'}
+                  </button>
+                </div>
+                {autoMode && (
+                  <div className="flex flex-col gap-3 rounded-3xl border border-muji-wood/40 bg-muji-card/70 px-4 py-4 sm:flex-row sm:items-center sm:justify-between sm:px-6">
+                    <ol className="flex flex-wrap gap-2">
+                      {playbackSteps.map((step, index) => (
+                        <li
+                          key={index}
+                          className={`rounded-full border px-3 py-1 text-xs font-semibold ${
+                            index === autoStep
+                              ? 'border-muji-accent bg-muji-accent text-white'
+                              : 'border-muji-wood/50 bg-white/60 text-muji-ink/70'
+                          }`}
+                        >
+                          {describeStep(step)}
+                        </li>
+                      ))}
+                    </ol>
+                    <div className="flex gap-2">
+                      <button
+                        className="rounded-full border border-muji-wood/60 bg-white/70 px-5 py-2 text-sm font-semibold text-muji-ink shadow-soft transition hover:bg-white focus-visible:outline-none focus-visible:ring-2 focus-visible:ring-muji-wood/60"
+                        onClick={handleSkipBack}
+                        type="button"
+                        title={shortcutHint('auto-back')}
+                      >
+                        Back
+                      </button>
+                      <button
+                        className="rounded-full border border-muji-accent/50 bg-muji-accent/10 px-5 py-2 text-sm font-semibold text-muji-ink shadow-soft transition hover:bg-muji-accent/20 focus-visible:outline-none focus-visible:ring-2 focus-visible:ring-muji-accent/50"
+                        onClick={handlePauseAuto}
+                        type="button"
+                        title={shortcutHint('pause-auto')}
+                      >
+                        {autoPaused ? 'Resume' : 'Pause'}
+                      </button>
+                    </div>
+                  </div>
+                )}
+              </>
+            )}
+            <div className="flex flex-col gap-2">
+              <label className="text-xs font-semibold uppercase tracking-[0.3em] text-muji-accent">
+                New Words Per Day
+              </label>
+              <input
+                className="w-full rounded-2xl border border-muji-wood/60 bg-white/70 px-4 py-3 text-sm text-muji-ink shadow-soft focus-visible:outline-none focus-visible:ring-2 focus-visible:ring-muji-wood/60 sm:w-40"
+                type="number"
+                min="0"
+                max="500"
+                value={newPerDay}
+                onChange={(event) => {
+                  const value = Math.round(Number(event.target.value) || 0);
+                  setNewPerDay(Math.max(0, Math.min(500, value)));
+                }}
+              />
+            </div>
+            <div className="flex flex-col gap-2">
+              <p className="text-xs font-semibold uppercase tracking-[0.3em] text-muji-accent">
+                Dictionary Domains
+              </p>
+              <div className="flex flex-wrap gap-2">
+                {DOMAIN_OPTIONS.map((domain) => {
+                  const shown = !hiddenDomains.includes(domain);
+                  return (
+                    <button
+                      key={domain}
+                      className={`rounded-full border px-4 py-1 text-xs font-semibold transition focus-visible:outline-none focus-visible:ring-2 focus-visible:ring-muji-wood/60 ${
+                        shown
+                          ? 'border-muji-accent/50 bg-muji-accent/10 text-muji-ink'
+                          : 'border-muji-wood/50 bg-white/70 text-muji-ink/50 line-through'
+                      }`}
+                      onClick={() => handleToggleDomain(domain)}
+                      type="button"
+                      aria-pressed={shown}
+                    >
+                      {domainLabel(domain)}
+                    </button>
+                  );
+                })}
+              </div>
+              <p className="text-xs text-muji-ink/60">
+                Struck-out domains are hidden from dictionary definitions and read-aloud.
+              </p>
             </div>
+            <div className="flex flex-col gap-2">
+              <label className="text-xs font-semibold uppercase tracking-[0.3em] text-muji-accent">
+                Card Display
+              </label>
+              <div className="relative sm:w-64">
+                <select
+                  className="w-full appearance-none rounded-2xl border border-muji-wood/60 bg-white/70 px-4 py-3 text-sm text-muji-ink shadow-soft focus-visible:outline-none focus-visible:ring-2 focus-visible:ring-muji-wood/60"
+                  value={recallMode}
+                  onChange={(event) => setRecallMode(event.target.value as RecallMode)}
+                >
+                  {(Object.keys(recallModeLabels) as RecallMode[]).map((value) => (
+                    <option key={value} value={value}>
+                      {recallModeLabels[value]}
+                    </option>
+                  ))}
+                </select>
+                <span className="pointer-events-none absolute right-4 top-1/2 -translate-y-1/2 text-muji-ink/60">
+                  ▾
+                </span>
+              </div>
+            </div>
+            <div className="flex flex-col gap-2">
+              <label className="text-xs font-semibold uppercase tracking-[0.3em] text-muji-accent">
+                Dictionary Chinese
+              </label>
+              <div className="relative sm:w-64">
+                <select
+                  className="w-full appearance-none rounded-2xl border border-muji-wood/60 bg-white/70 px-4 py-3 text-sm text-muji-ink shadow-soft focus-visible:outline-none focus-visible:ring-2 focus-visible:ring-muji-wood/60"
+                  value={chineseScript}
+                  onChange={(event) => setChineseScript(event.target.value as ChineseScript)}
+                >
+                  {(Object.keys(chineseScriptLabels) as ChineseScript[]).map((script) => (
+                    <option key={script} value={script}>
+                      {chineseScriptLabels[script]}
+                    </option>
+                  ))}
+                </select>
+                <span className="pointer-events-none absolute right-4 top-1/2 -translate-y-1/2 text-muji-ink/60">
+                  ▾
+                </span>
+              </div>
+            </div>
+            {speechSupported && (
+              <PlaybackSettings
+                scripts={playbackScripts}
+                selectedId={playbackScriptId}
+                disabled={autoMode}
+                onSelect={setPlaybackScriptId}
+                onSave={handleSaveScript}
+                onDelete={handleDeleteScript}
+              />
+            )}
             {speechSupported && voices.length > 0 && (
               <div className="space-y-4">
                 <div className="grid gap-4 sm:grid-cols-2">
@@ -547,10 +1592,14 @@ export default function App() {
                     <div className="relative">
                       <select
                         className="w-full appearance-none rounded-2xl border border-muji-wood/60 bg-white/70 px-4 py-3 text-sm text-muji-ink shadow-soft focus-visible:outline-none focus-visible:ring-2 focus-visible:ring-muji-wood/60"
-                        value={selectedVoiceURI}
+                        value={resolveVoiceURI(voices, 'en-US', selectedVoiceURI)}
                         onChange={(event) => setSelectedVoiceURI(event.target.value)}
+                        disabled={englishVoices.length === 0}
                       >
-                        {voices.map((voice) => (
+                        {englishVoices.length === 0 && (
+                          <option value="">No English voices installed</option>
+                        )}
+                        {englishVoices.map((voice) => (
                           <option key={voice.voiceURI} value={voice.voiceURI}>
                             {voice.name} ({voice.lang})
                           </option>
@@ -568,10 +1617,14 @@ export default function App() {
                     <div className="relative">
                       <select
                         className="w-full appearance-none rounded-2xl border border-muji-wood/60 bg-white/70 px-4 py-3 text-sm text-muji-ink shadow-soft focus-visible:outline-none focus-visible:ring-2 focus-visible:ring-muji-wood/60"
-                        value={selectedChineseVoiceURI}
+                        value={resolveVoiceURI(voices, 'zh-TW', selectedChineseVoiceURI)}
                         onChange={(event) => setSelectedChineseVoiceURI(event.target.value)}
+                        disabled={chineseVoices.length === 0}
                       >
-                        {voices.map((voice) => (
+                        {chineseVoices.length === 0 && (
+                          <option value="">No Chinese voices installed</option>
+                        )}
+                        {chineseVoices.map((voice) => (
                           <option key={voice.voiceURI} value={voice.voiceURI}>
                             {voice.name} ({voice.lang})
                           </option>
@@ -604,60 +1657,17 @@ export default function App() {
                 </div>
               </div>
             )}
-            <div className="rounded-3xl border border-muji-wood/40 bg-muji-card/70 px-4 py-4 sm:px-6">
-              <div className="space-y-3">
-                <p className="text-xs font-semibold uppercase tracking-[0.3em] text-muji-accent">
-                  Dictionary Lookup
-                </p>
-                <div className="flex flex-col gap-3 sm:flex-row sm:items-end">
-                  <div className="flex-1">
-                    <label className="text-xs font-semibold uppercase tracking-[0.2em] text-muji-ink/60">
-                      English word
-                    </label>
-                    <input
-                      className="mt-2 w-full rounded-2xl border border-muji-wood/50 bg-white/70 px-4 py-3 text-sm text-muji-ink shadow-soft focus-visible:outline-none focus-visible:ring-2 focus-visible:ring-muji-accent/40"
-                      placeholder="Type a word (e.g., lumber)"
-                      value={lookupTerm}
-                      onChange={(event) => {
-                        setLookupTerm(event.target.value);
-                        setLookupMessage('');
-                      }}
-                      onKeyDown={handleLookupKeyDown}
-                      disabled={!dictionaryReady}
-                    />
-                  </div>
-                  <button
-                    className="rounded-full border border-muji-accent/50 bg-muji-accent/10 px-6 py-3 text-sm font-semibold text-muji-ink shadow-soft transition hover:bg-muji-accent/20 focus-visible:outline-none focus-visible:ring-2 focus-visible:ring-muji-accent/40 disabled:cursor-not-allowed disabled:opacity-60"
-                    onClick={handleLookup}
-                    type="button"
-                    disabled={!dictionaryReady}
-                  >
-                    Look up
-                  </button>
-                </div>
-                {!dictionaryReady && (
-                  <p className="text-xs text-muji-ink/60">Loading dictionary data…</p>
-                )}
-                {lookupMessage && (
-                  <p className="text-xs text-muji-ink/60">{lookupMessage}</p>
-                )}
-                {lookupResult && (
-                  <div className="rounded-2xl border border-muji-wood/40 bg-white/70 px-4 py-3 text-sm text-muji-ink/80">
-                    <div className="flex flex-wrap items-center gap-2 text-[11px] font-semibold uppercase tracking-[0.2em] text-muji-accent">
-                      <span>Result</span>
-                      {lookupResult.pos && (
-                        <span className="rounded-full border border-muji-wood/50 bg-muji-paper px-2 py-1 text-[10px] text-muji-ink">
-                          {lookupResult.pos}
-                        </span>
-                      )}
-                    </div>
-                    {lookupResult.zh && (
-                      <p className="mt-2 text-sm text-muji-ink/80">{lookupResult.zh}</p>
-                    )}
-                  </div>
-                )}
-              </div>
-            </div>
+            <LookupPanel
+              dictionary={dictionary}
+              dictionaryReady={dictionaryReady}
+              dictionaryError={dictionaryError}
+              items={vocabItems}
+              hiddenDomains={hiddenDomains}
+              chineseScript={chineseScript}
+              toTraditional={toTraditional}
+              onLookup={handleLookup}
+              inputRef={lookupInputRef}
+            />
           </div>
           {!speechSupported && (
             <p className="mt-3 text-xs text-muji-ink/60">
@@ -665,6 +1675,14 @@ export default function App() {
             </p>
           )}
         </section>
+        {shortcutsOpen && (
+          <ShortcutOverlay
+            bindings={shortcuts}
+            onRebind={(action, key) => setShortcuts((prev) => rebindShortcut(prev, action, key))}
+            onReset={() => setShortcuts(DEFAULT_SHORTCUTS)}
+            onClose={() => setShortcutsOpen(false)}
+          />
+        )}
       </div>
     </div>
   );
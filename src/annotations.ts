@@ -0,0 +1,67 @@
+import type { VocabItem } from './vocab';
+
+export type WordAnnotation = {
+  note: string;
+  tags: string[];
+  starred: boolean;
+  updatedAt: number;
+};
+
+export type AnnotationMap = Record<string, WordAnnotation>;
+
+export type AnnotationFilter = 'all' | 'starred' | `tag:${string}`;
+
+export const emptyAnnotation: WordAnnotation = {
+  note: '',
+  tags: [],
+  starred: false,
+  updatedAt: 0,
+};
+
+export const normalizeTag = (tag: string) => tag.trim().replace(/\s+/g, ' ');
+
+export const tagFilter = (tag: string): AnnotationFilter => `tag:${tag}`;
+
+export const updateAnnotation = (
+  annotations: AnnotationMap,
+  key: string,
+  patch: Partial<Omit<WordAnnotation, 'updatedAt'>>,
+  now = Date.now()
+): AnnotationMap => {
+  const next = { ...(annotations[key] ?? emptyAnnotation), ...patch, updatedAt: now };
+  const { [key]: _previous, ...rest } = annotations;
+  if (!next.starred && next.tags.length === 0 && !next.note.trim()) {
+    return rest;
+  }
+  return { ...rest, [key]: next };
+};
+
+export const collectTags = (annotations: AnnotationMap) =>
+  Array.from(new Set(Object.values(annotations).flatMap((annotation) => annotation.tags))).sort(
+    (a, b) => a.localeCompare(b)
+  );
+
+export const matchesAnnotationFilter = (
+  annotation: WordAnnotation | undefined,
+  filter: AnnotationFilter
+) => {
+  if (filter === 'all') {
+    return true;
+  }
+  if (!annotation) {
+    return false;
+  }
+  if (filter === 'starred') {
+    return annotation.starred;
+  }
+  return annotation.tags.includes(filter.slice('tag:'.length));
+};
+
+export const filterByAnnotation = (
+  items: VocabItem[],
+  annotations: AnnotationMap,
+  filter: AnnotationFilter
+) =>
+  filter === 'all'
+    ? items
+    : items.filter((item) => matchesAnnotationFilter(annotations[item.englishKey], filter));
@@ -0,0 +1,102 @@
+import { describe, expect, it } from 'vitest';
+import { createBackup, diffBackup, parseBackup, restoreBackup, validateBackup } from './backup';
+import { createDefaultState, openStudyStore } from './storage';
+
+const NOW = Date.UTC(2026, 9, 19, 9, 0);
+
+const validBackup = () => ({
+  app: 'learn-toeic',
+  backupVersion: 1,
+  exportedAt: NOW,
+  profileName: 'Mei',
+  state: {
+    ...createDefaultState(),
+    schedules: {
+      invoice: { ease: 2.5, interval: 3, due: NOW, lapses: 0, reps: 2, lastReview: NOW },
+    },
+  },
+  events: [{ type: 'grade', key: 'invoice', grade: 'good', timestamp: NOW }],
+  decks: [{ id: 'deck-1', name: 'Week 1', format: 'csv', createdAt: NOW, items: [] }],
+});
+
+describe('validateBackup', () => {
+  it('accepts a well-formed backup', () => {
+    const result = validateBackup(validBackup());
+    expect(result.ok).toBe(true);
+    expect(result.ok && result.backup.profileName).toBe('Mei');
+  });
+
+  it.each([
+    ['a non-object', 'backup', 'This file is not a TOEIC vocabulary backup.'],
+    ['another app', { ...validBackup(), app: 'other' }, 'This file is not a TOEIC vocabulary backup.'],
+    [
+      'a newer backup version',
+      { ...validBackup(), backupVersion: 2 },
+      'This backup was made by a newer version of the app.',
+    ],
+    [
+      'a missing version',
+      { ...validBackup(), backupVersion: '1' },
+      'This backup was made by a newer version of the app.',
+    ],
+    [
+      'missing state',
+      { ...validBackup(), state: null },
+      'The backup is missing its settings and schedule data.',
+    ],
+    [
+      'events without timestamps',
+      { ...validBackup(), events: [{ type: 'grade', key: 'invoice' }] },
+      'The study history in this backup is damaged.',
+    ],
+    [
+      'events that are not a list',
+      { ...validBackup(), events: {} },
+      'The study history in this backup is damaged.',
+    ],
+    [
+      'decks without items',
+      { ...validBackup(), decks: [{ id: 'deck-1', name: 'Week 1' }] },
+      'The decks in this backup are damaged.',
+    ],
+  ])('rejects %s', (_label, raw, error) => {
+    expect(validateBackup(raw)).toEqual({ ok: false, error });
+  });
+
+  it('migrates an old state inside the backup', () => {
+    const result = validateBackup({ ...validBackup(), state: { version: 1, schedules: {} } });
+    expect(result.ok && result.backup.state.version).toBe(createDefaultState().version);
+  });
+});
+
+describe('parseBackup', () => {
+  it('rejects text that is not JSON', () => {
+    expect(parseBackup('{"app": "learn-toeic",')).toEqual({
+      ok: false,
+      error: 'The file is not valid JSON.',
+    });
+  });
+});
+
+describe('diffBackup and restoreBackup', () => {
+  it('reports what a restore would change and then applies it', async () => {
+    const store = await openStudyStore();
+    const current = await createBackup(store, { now: NOW });
+    const parsed = parseBackup(JSON.stringify(validBackup()));
+    if (!parsed.ok) {
+      throw new Error(parsed.error);
+    }
+
+    const diff = diffBackup(current, parsed.backup);
+    expect(diff.trackedWords).toEqual({ current: 0, incoming: 1 });
+    expect(diff.events).toEqual({ current: 0, incoming: 1 });
+    expect(diff.decksAdded).toEqual(['Week 1']);
+    expect(diff.settingsChanged).toEqual([]);
+
+    await restoreBackup(store, parsed.backup);
+    const restored = await createBackup(store, { now: NOW });
+    expect(restored.state.schedules).toEqual(parsed.backup.state.schedules);
+    expect(restored.events).toEqual(parsed.backup.events);
+    expect(restored.decks.map((deck) => deck.id)).toEqual(['deck-1']);
+  });
+});
@@ -0,0 +1,209 @@
+import type { AnnotationMap } from './annotations';
+import type { Deck } from './decks';
+import {
+  migrateState,
+  type PersistedState,
+  type StudyEvent,
+  type StudySettings,
+  type StudyStore,
+} from './storage';
+import type { VocabItem } from './vocab';
+
+export type BackupFile = {
+  app: 'learn-toeic';
+  backupVersion: number;
+  exportedAt: number;
+  profileName?: string;
+  state: PersistedState;
+  events: StudyEvent[];
+  decks: Deck[];
+};
+
+export type BackupValidation = { ok: true; backup: BackupFile } | { ok: false; error: string };
+
+export type BackupDiff = {
+  trackedWords: { current: number; incoming: number };
+  events: { current: number; incoming: number };
+  corrections: { current: number; incoming: number };
+  annotations: { current: number; incoming: number };
+  topicOverrides: { current: number; incoming: number };
+  examAttempts: { current: number; incoming: number };
+  decksAdded: string[];
+  decksRemoved: string[];
+  settingsChanged: (keyof StudySettings)[];
+};
+
+export const BACKUP_VERSION = 1;
+
+export const VOCAB_CSV_HEADER = [
+  'English',
+  'Chinese Meanings',
+  'pos',
+  'word_with_pos',
+  'check_status',
+  'suggested_zh',
+  'notes',
+  'ecdict_zh',
+  'ecdict_pos',
+  'starred',
+  'tags',
+  'my_notes',
+];
+
+const escapeCsvField = (value: string) =>
+  /[",\r\n]/.test(value) ? `"${value.replace(/"/g, '""')}"` : value;
+
+const toCsvRow = (item: VocabItem, annotations: AnnotationMap) => [
+  item.englishKey,
+  item.chinese,
+  item.pos,
+  item.english,
+  item.checkStatus,
+  item.suggestedZh,
+  item.notes,
+  item.ecdictZh,
+  item.ecdictPos,
+  annotations[item.englishKey]?.starred ? 'yes' : '',
+  annotations[item.englishKey]?.tags.join('; ') ?? '',
+  annotations[item.englishKey]?.note ?? '',
+];
+
+export const serializeVocabCsv = (items: VocabItem[], annotations: AnnotationMap = {}) =>
+  [VOCAB_CSV_HEADER, ...items.map((item) => toCsvRow(item, annotations))]
+    .map((row) => row.map(escapeCsvField).join(','))
+    .join('\n')
+    .concat('\n');
+
+export const createBackup = async (
+  store: StudyStore,
+  { profileName, now = Date.now() }: { profileName?: string; now?: number } = {}
+): Promise<BackupFile> => {
+  const [state, events, decks] = await Promise.all([
+    store.loadState(),
+    store.listEvents(),
+    store.listDecks(),
+  ]);
+
+  return {
+    app: 'learn-toeic',
+    backupVersion: BACKUP_VERSION,
+    exportedAt: now,
+    profileName,
+    state,
+    events,
+    decks,
+  };
+};
+
+const isRecord = (value: unknown): value is Record<string, unknown> =>
+  typeof value === 'object' && value !== null && !Array.isArray(value);
+
+const isStudyEvent = (value: unknown): value is StudyEvent =>
+  isRecord(value) &&
+  typeof value.type === 'string' &&
+  typeof value.key === 'string' &&
+  typeof value.timestamp === 'number';
+
+const isDeck = (value: unknown): value is Deck =>
+  isRecord(value) &&
+  typeof value.id === 'string' &&
+  typeof value.name === 'string' &&
+  Array.isArray(value.items);
+
+export const validateBackup = (raw: unknown): BackupValidation => {
+  if (!isRecord(raw) || raw.app !== 'learn-toeic') {
+    return { ok: false, error: 'This file is not a TOEIC vocabulary backup.' };
+  }
+  if (typeof raw.backupVersion !== 'number' || raw.backupVersion > BACKUP_VERSION) {
+    return { ok: false, error: 'This backup was made by a newer version of the app.' };
+  }
+  if (!isRecord(raw.state)) {
+    return { ok: false, error: 'The backup is missing its settings and schedule data.' };
+  }
+  if (!Array.isArray(raw.events) || !raw.events.every(isStudyEvent)) {
+    return { ok: false, error: 'The study history in this backup is damaged.' };
+  }
+  if (!Array.isArray(raw.decks) || !raw.decks.every(isDeck)) {
+    return { ok: false, error: 'The decks in this backup are damaged.' };
+  }
+
+  return {
+    ok: true,
+    backup: {
+      app: 'learn-toeic',
+      backupVersion: raw.backupVersion,
+      exportedAt: typeof raw.exportedAt === 'number' ? raw.exportedAt : 0,
+      profileName: typeof raw.profileName === 'string' ? raw.profileName : undefined,
+      state: migrateState(raw.state),
+      events: raw.events,
+      decks: raw.decks,
+    },
+  };
+};
+
+export const parseBackup = (text: string): BackupValidation => {
+  try {
+    return validateBackup(JSON.parse(text));
+  } catch (error) {
+    return { ok: false, error: 'The file is not valid JSON.' };
+  }
+};
+
+export const diffBackup = (current: BackupFile, incoming: BackupFile): BackupDiff => {
+  const currentDeckIds = new Set(current.decks.map((deck) => deck.id));
+  const incomingDeckIds = new Set(incoming.decks.map((deck) => deck.id));
+  const settingKeys = Object.keys(incoming.state.settings) as (keyof StudySettings)[];
+
+  return {
+    trackedWords: {
+      current: Object.keys(current.state.schedules).length,
+      incoming: Object.keys(incoming.state.schedules).length,
+    },
+    events: { current: current.events.length, incoming: incoming.events.length },
+    corrections: {
+      current: Object.keys(current.state.corrections).length,
+      incoming: Object.keys(incoming.state.corrections).length,
+    },
+    annotations: {
+      current: Object.keys(current.state.annotations).length,
+      incoming: Object.keys(incoming.state.annotations).length,
+    },
+    topicOverrides: {
+      current: Object.keys(current.state.topicOverrides).length,
+      incoming: Object.keys(incoming.state.topicOverrides).length,
+    },
+    examAttempts: {
+      current: current.state.examAttempts.length,
+      incoming: incoming.state.examAttempts.length,
+    },
+    decksAdded: incoming.decks
+      .filter((deck) => !currentDeckIds.has(deck.id))
+      .map((deck) => deck.name),
+    decksRemoved: current.decks
+      .filter((deck) => !incomingDeckIds.has(deck.id))
+      .map((deck) => deck.name),
+    settingsChanged: settingKeys.filter(
+      (key) =>
+        JSON.stringify(current.state.settings[key]) !== JSON.stringify(incoming.state.settings[key])
+    ),
+  };
+};
+
+export const restoreBackup = async (store: StudyStore, backup: BackupFile) => {
+  const existingDecks = await store.listDecks();
+  await Promise.all(existingDecks.map((deck) => store.deleteDeck(deck.id)));
+  await Promise.all(backup.decks.map((deck) => store.saveDeck(deck)));
+  await store.replaceEvents(backup.events);
+  await store.saveState(backup.state);
+};
+
+export const downloadFile = (fileName: string, content: string, type: string) => {
+  const url = URL.createObjectURL(new Blob([content], { type }));
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = fileName;
+  document.body.appendChild(link);
+  link.click();
+  link.remove();
+  URL.revokeObjectURL(url);
+};
@@ -0,0 +1,40 @@
+export type ChineseScript = 'simplified' | 'traditional' | 'both';
+
+export type ChineseConverter = (text: string) => string;
+
+export const DEFAULT_CHINESE_SCRIPT: ChineseScript = 'traditional';
+
+export const chineseScriptLabels: Record<ChineseScript, string> = {
+  traditional: 'Traditional (Taiwan)',
+  simplified: 'Simplified',
+  both: 'Both side by side',
+};
+
+let converterPromise: Promise<ChineseConverter> | null = null;
+
+export const loadTraditionalConverter = () => {
+  if (!converterPromise) {
+    converterPromise = import('opencc-js/cn2t').then(({ Converter }) => {
+      const convert = Converter({ from: 'cn', to: 'twp' });
+      const cache = new Map<string, string>();
+      return (text: string) => {
+        let converted = cache.get(text);
+        if (converted === undefined) {
+          converted = convert(text);
+          cache.set(text, converted);
+        }
+        return converted;
+      };
+    });
+    converterPromise.catch(() => {
+      converterPromise = null;
+    });
+  }
+  return converterPromise;
+};
+
+export const toDisplayChinese = (
+  text: string,
+  script: ChineseScript,
+  toTraditional: ChineseConverter | null
+) => (script === 'simplified' || !toTraditional ? text : toTraditional(text));
@@ -0,0 +1,96 @@
+import { useState, type KeyboardEvent } from 'react';
+import { emptyAnnotation, normalizeTag, type WordAnnotation } from '../annotations';
+
+type AnnotationEditorProps = {
+  annotation: WordAnnotation | undefined;
+  knownTags: string[];
+  onChange: (patch: Partial<Omit<WordAnnotation, 'updatedAt'>>) => void;
+};
+
+export default function AnnotationEditor({
+  annotation = emptyAnnotation,
+  knownTags,
+  onChange,
+}: AnnotationEditorProps) {
+  const [note, setNote] = useState(annotation.note);
+  const [tagDraft, setTagDraft] = useState('');
+
+  const handleAddTag = () => {
+    const tag = normalizeTag(tagDraft);
+    setTagDraft('');
+    if (!tag || annotation.tags.includes(tag)) {
+      return;
+    }
+    onChange({ tags: [...annotation.tags, tag] });
+  };
+
+  const handleTagKeyDown = (event: KeyboardEvent<HTMLInputElement>) => {
+    if (event.key === 'Enter') {
+      event.preventDefault();
+      handleAddTag();
+    }
+  };
+
+  const handleNoteBlur = () => {
+    if (note !== annotation.note) {
+      onChange({ note });
+    }
+  };
+
+  return (
+    <div className="space-y-3 rounded-2xl border border-muji-wood/40 bg-white/60 px-4 py-3">
+      <div className="flex flex-wrap items-center gap-2">
+        <button
+          className={`rounded-full border px-3 py-1 text-xs font-semibold transition focus-visible:outline-none focus-visible:ring-2 focus-visible:ring-amber-300 ${
+            annotation.starred
+              ? 'border-amber-300 bg-amber-100 text-amber-700'
+              : 'border-muji-wood/50 bg-white/70 text-muji-ink/70 hover:bg-white'
+          }`}
+          onClick={() => onChange({ starred: !annotation.starred })}
+          type="button"
+          aria-pressed={annotation.starred}
+        >
+          {annotation.starred ? '★ Starred' : '☆ Star'}
+        </button>
+        {annotation.tags.map((tag) => (
+          <span
+            key={tag}
+            className="flex items-center gap-1 rounded-full border border-muji-wood/50 bg-muji-paper px-3 py-1 text-xs text-muji-ink"
+          >
+            {tag}
+            <button
+              className="text-muji-ink/50 transition hover:text-rose-700"
+              onClick={() => onChange({ tags: annotation.tags.filter((item) => item !== tag) })}
+              type="button"
+              aria-label={`Remove tag ${tag}`}
+            >
+              ×
+            </button>
+          </span>
+        ))}
+        <input
+          className="min-w-[8rem] flex-1 rounded-full border border-muji-wood/40 bg-white/70 px-3 py-1 text-xs text-muji-ink focus-visible:outline-none focus-visible:ring-2 focus-visible:ring-muji-accent/40"
+          placeholder="Add tag and press Enter"
+          list="annotation-tags"
+          value={tagDraft}
+          onChange={(event) => setTagDraft(event.target.value)}
+          onKeyDown={handleTagKeyDown}
+          onBlur={handleAddTag}
+        />
+        <datalist id="annotation-tags">
+          {knownTags.map((tag) => (
+            <option key={tag} value={tag} />
+          ))}
+        </datalist>
+      </div>
+      <textarea
+        className="w-full rounded-2xl border border-muji-wood/40 bg-white/70 px-3 py-2 text-sm text-muji-ink focus-visible:outline-none focus-visible:ring-2 focus-visible:ring-muji-accent/40"
+        placeholder="Personal notes (saved when you leave the box)"
+        rows={2}
+        value={note}
+        onChange={(event) => setNote(event.target.value)}
+        onBlur={handleNoteBlur}
+      />
+    </div>
+  );
+}
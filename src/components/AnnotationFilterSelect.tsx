@@ -0,0 +1,30 @@
+import { tagFilter, type AnnotationFilter } from '../annotations';
+
+type AnnotationFilterSelectProps = {
+  value: AnnotationFilter;
+  tags: string[];
+  onChange: (filter: AnnotationFilter) => void;
+};
+
+export default function AnnotationFilterSelect({
+  value,
+  tags,
+  onChange,
+}: AnnotationFilterSelectProps) {
+  return (
+    <select
+      className="rounded-2xl border border-muji-wood/60 bg-white/70 px-4 py-2 text-sm text-muji-ink shadow-soft focus-visible:outline-none focus-visible:ring-2 focus-visible:ring-muji-wood/60"
+      value={value}
+      onChange={(event) => onChange(event.target.value as AnnotationFilter)}
+      aria-label="Filter by star or tag"
+    >
+      <option value="all">All words</option>
+      <option value="starred">Starred only</option>
+      {tags.map((tag) => (
+        <option key={tag} value={tagFilter(tag)}>
+          Tag: {tag}
+        </option>
+      ))}
+    </select>
+  );
+}
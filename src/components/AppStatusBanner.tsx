@@ -0,0 +1,89 @@
+type AppStatusBannerProps = {
+  online: boolean;
+  offlineReady: boolean;
+  dictionaryError: string | null;
+  onApplyUpdate: (() => void) | null;
+  onRetryDictionary: () => void;
+  onDismissOfflineReady: () => void;
+};
+
+type Notice = {
+  id: string;
+  tone: 'info' | 'warn';
+  text: string;
+  action?: { label: string; onClick: () => void };
+};
+
+const toneClasses: Record<Notice['tone'], string> = {
+  info: 'border-muji-wood/50 bg-white/70 text-muji-ink',
+  warn: 'border-amber-300/70 bg-amber-50 text-amber-900',
+};
+
+export default function AppStatusBanner({
+  online,
+  offlineReady,
+  dictionaryError,
+  onApplyUpdate,
+  onRetryDictionary,
+  onDismissOfflineReady,
+}: AppStatusBannerProps) {
+  const notices: Notice[] = [];
+
+  if (!online) {
+    notices.push({
+      id: 'offline',
+      tone: 'warn',
+      text: 'You are offline. Study progress is saved on this device and nothing is lost.',
+    });
+  }
+  if (dictionaryError) {
+    notices.push({
+      id: 'dictionary',
+      tone: 'warn',
+      text: `Dictionary unavailable: ${dictionaryError}`,
+      action: online ? { label: 'Retry', onClick: onRetryDictionary } : undefined,
+    });
+  }
+  if (onApplyUpdate) {
+    notices.push({
+      id: 'update',
+      tone: 'info',
+      text: 'A new version is available.',
+      action: { label: 'Reload', onClick: onApplyUpdate },
+    });
+  }
+  if (offlineReady) {
+    notices.push({
+      id: 'offline-ready',
+      tone: 'info',
+      text: 'The app, word list and dictionary are saved for offline use.',
+      action: { label: 'Dismiss', onClick: onDismissOfflineReady },
+    });
+  }
+
+  if (notices.length === 0) {
+    return null;
+  }
+
+  return (
+    <div className="space-y-2 pt-2" role="status" aria-live="polite">
+      {notices.map((notice) => (
+        <div
+          key={notice.id}
+          className={`flex flex-wrap items-center justify-between gap-3 rounded-2xl border px-4 py-2 text-sm ${toneClasses[notice.tone]}`}
+        >
+          <span>{notice.text}</span>
+          {notice.action && (
+            <button
+              className="rounded-full border border-muji-wood/60 bg-white/80 px-4 py-1 text-xs font-semibold text-muji-ink transition hover:bg-white focus-visible:outline-none focus-visible:ring-2 focus-visible:ring-muji-wood/60"
+              onClick={notice.action.onClick}
+              type="button"
+            >
+              {notice.action.label}
+            </button>
+          )}
+        </div>
+      ))}
+    </div>
+  );
+}
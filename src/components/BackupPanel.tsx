@@ -0,0 +1,178 @@
+import { useState, type ChangeEvent } from 'react';
+import {
+  createBackup,
+  diffBackup,
+  downloadFile,
+  parseBackup,
+  restoreBackup,
+  type BackupDiff,
+  type BackupFile,
+} from '../backup';
+import { profileFileSlug, type LearnerProfile } from '../profiles';
+import { toDayKey } from '../srs';
+import type { StudyStore } from '../storage';
+
+type BackupPanelProps = {
+  store: StudyStore | null;
+  profile: LearnerProfile;
+  onRestored: () => void;
+};
+
+type PendingRestore = {
+  backup: BackupFile;
+  diff: BackupDiff;
+};
+
+const formatChange = ({ current, incoming }: { current: number; incoming: number }) =>
+  current === incoming ? `${incoming} (unchanged)` : `${current} → ${incoming}`;
+
+export default function BackupPanel({ store, profile, onRestored }: BackupPanelProps) {
+  const [pending, setPending] = useState<PendingRestore | null>(null);
+  const [message, setMessage] = useState('');
+  const [busy, setBusy] = useState(false);
+
+  const handleExport = async () => {
+    if (!store) {
+      return;
+    }
+
+    setBusy(true);
+    try {
+      const backup = await createBackup(store, { profileName: profile.name });
+      downloadFile(
+        `learn-toeic-${profileFileSlug(profile)}-${toDayKey(backup.exportedAt)}.json`,
+        JSON.stringify(backup),
+        'application/json'
+      );
+      setMessage('Backup downloaded.');
+    } catch (error) {
+      setMessage('Could not create a backup from local data.');
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  const handleFile = async (event: ChangeEvent<HTMLInputElement>) => {
+    const file = event.target.files?.[0];
+    event.target.value = '';
+    if (!file || !store) {
+      return;
+    }
+
+    setBusy(true);
+    try {
+      const result = parseBackup(await file.text());
+      if (!result.ok) {
+        setPending(null);
+        setMessage(result.error);
+        return;
+      }
+
+      const current = await createBackup(store);
+      setPending({ backup: result.backup, diff: diffBackup(current, result.backup) });
+      setMessage('');
+    } catch (error) {
+      setMessage('Could not read that file.');
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  const handleConfirm = async () => {
+    if (!store || !pending) {
+      return;
+    }
+
+    setBusy(true);
+    try {
+      await restoreBackup(store, pending.backup);
+      setPending(null);
+      onRestored();
+    } catch (error) {
+      setMessage('Restoring failed; your existing data may be partially replaced.');
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  return (
+    <div className="rounded-3xl border border-muji-wood/50 bg-muji-card p-6 shadow-soft sm:p-10">
+      <div className="space-y-5">
+        <div className="space-y-2">
+          <p className="text-xs font-semibold uppercase tracking-[0.3em] text-muji-accent">
+            Backup &amp; Restore
+          </p>
+          <p className="text-sm text-muji-ink/70">
+            Save {profile.name}'s settings, review schedules, corrections, notes and tags,
+            study history and imported decks to a JSON file, then restore it in another browser.
+          </p>
+        </div>
+        <div className="flex flex-col gap-3 sm:flex-row sm:items-center">
+          <button
+            className="rounded-full bg-muji-accent px-6 py-3 text-sm font-semibold text-white shadow-soft transition hover:bg-muji-accent/90 focus-visible:outline-none focus-visible:ring-2 focus-visible:ring-muji-accent/50 disabled:cursor-not-allowed disabled:opacity-60"
+            onClick={handleExport}
+            type="button"
+            disabled={!store || busy}
+          >
+            Download Backup
+          </button>
+          <input
+            className="block w-full text-sm text-muji-ink file:mr-4 file:rounded-full file:border file:border-muji-wood/60 file:bg-white/70 file:px-5 file:py-2 file:text-sm file:font-semibold file:text-muji-ink"
+            type="file"
+            accept=".json,application/json"
+            onChange={handleFile}
+            disabled={!store || busy}
+          />
+        </div>
+        {message && <p className="text-sm text-muji-ink/70">{message}</p>}
+        {pending && (
+          <div className="space-y-3 rounded-2xl border border-amber-300/70 bg-amber-50/70 px-4 py-3 text-sm text-muji-ink">
+            <p className="font-semibold">
+              Restore backup from {new Date(pending.backup.exportedAt).toLocaleString()}?
+            </p>
+            <ul className="space-y-1 text-muji-ink/80">
+              <li>Words with review history: {formatChange(pending.diff.trackedWords)}</li>
+              <li>History events: {formatChange(pending.diff.events)}</li>
+              <li>Flagged-entry corrections: {formatChange(pending.diff.corrections)}</li>
+              <li>Words with notes, tags or stars: {formatChange(pending.diff.annotations)}</li>
+              <li>Manual topic assignments: {formatChange(pending.diff.topicOverrides)}</li>
+              <li>Mock test attempts: {formatChange(pending.diff.examAttempts)}</li>
+              {pending.diff.decksAdded.length > 0 && (
+                <li>Decks added: {pending.diff.decksAdded.join(', ')}</li>
+              )}
+              {pending.diff.decksRemoved.length > 0 && (
+                <li>Decks removed: {pending.diff.decksRemoved.join(', ')}</li>
+              )}
+              <li>
+                Settings changed:{' '}
+                {pending.diff.settingsChanged.length > 0
+                  ? pending.diff.settingsChanged.join(', ')
+                  : 'none'}
+              </li>
+            </ul>
+            <p className="text-xs text-amber-700">
+              Restoring replaces all of {profile.name}'s data in this browser.
+            </p>
+            <div className="flex gap-3">
+              <button
+                className="rounded-full bg-muji-accent px-5 py-2 text-sm font-semibold text-white shadow-soft transition hover:bg-muji-accent/90 focus-visible:outline-none focus-visible:ring-2 focus-visible:ring-muji-accent/50 disabled:cursor-not-allowed disabled:opacity-60"
+                onClick={handleConfirm}
+                type="button"
+                disabled={busy}
+              >
+                Replace My Data
+              </button>
+              <button
+                className="rounded-full border border-muji-wood/60 bg-white/70 px-5 py-2 text-sm font-semibold text-muji-ink shadow-soft transition hover:bg-white focus-visible:outline-none focus-visible:ring-2 focus-visible:ring-muji-wood/60"
+                onClick={() => setPending(null)}
+                type="button"
+              >
+                Cancel
+              </button>
+            </div>
+          </div>
+        )}
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,168 @@
+import { useEffect, useMemo, useRef, useState, type FormEvent } from 'react';
+import { CLOZE_BLANK, clozeCandidates, type ClozeQuestion, type ExampleMap } from '../examples';
+import { shuffle } from '../random';
+import { gradeSpelling, type SpellingResult } from '../spelling';
+import type { VocabItem } from '../vocab';
+
+type ClozeModeProps = {
+  items: VocabItem[];
+  examples: ExampleMap;
+  speechSupported: boolean;
+  onSpeak: (item: VocabItem, sentence: string) => void;
+  knownWords: ReadonlySet<string>;
+  onAnswer: (item: VocabItem, correct: boolean) => void;
+};
+
+const verdictLabels: Record<SpellingResult['verdict'], string> = {
+  exact: 'Correct!',
+  typo: 'Close — counted as a typo.',
+  wrong: 'Not quite.',
+};
+
+const pickQuestion = (questions: ClozeQuestion[], excludeSentence?: string) =>
+  shuffle(questions).find((question) => question.sentence !== excludeSentence) ?? questions[0];
+
+export default function ClozeMode({
+  items,
+  examples,
+  speechSupported,
+  onSpeak,
+  knownWords,
+  onAnswer,
+}: ClozeModeProps) {
+  const questions = useMemo(() => clozeCandidates(items, examples), [items, examples]);
+  const [question, setQuestion] = useState<ClozeQuestion | undefined>(() =>
+    pickQuestion(questions)
+  );
+  const [answer, setAnswer] = useState('');
+  const [result, setResult] = useState<SpellingResult | null>(null);
+  const [tally, setTally] = useState({ correct: 0, total: 0 });
+  const inputRef = useRef<HTMLInputElement>(null);
+
+  useEffect(() => {
+    if (!question && questions.length > 0) {
+      setQuestion(pickQuestion(questions));
+    }
+  }, [question, questions]);
+
+  useEffect(() => {
+    inputRef.current?.focus();
+  }, [question]);
+
+  const handleSubmit = (event: FormEvent<HTMLFormElement>) => {
+    event.preventDefault();
+    if (!question) {
+      return;
+    }
+
+    if (result) {
+      setQuestion(pickQuestion(questions, question.sentence));
+      setAnswer('');
+      setResult(null);
+      return;
+    }
+
+    if (!answer.trim()) {
+      return;
+    }
+
+    const graded = gradeSpelling(answer, question.answer, knownWords);
+    const correct = graded.verdict !== 'wrong';
+    setResult(graded);
+    setTally((prev) => ({ correct: prev.correct + (correct ? 1 : 0), total: prev.total + 1 }));
+    onAnswer(question.item, correct);
+    if (speechSupported) {
+      onSpeak(question.item, question.sentence);
+    }
+  };
+
+  if (!question) {
+    return (
+      <div className="rounded-3xl border border-muji-wood/50 bg-muji-card p-6 shadow-soft sm:p-10">
+        <p className="text-lg text-muji-ink/70">
+          {Object.keys(examples).length === 0
+            ? 'Example sentences are still loading.'
+            : 'None of these words have example sentences yet.'}
+        </p>
+      </div>
+    );
+  }
+
+  return (
+    <div className="rounded-3xl border border-muji-wood/50 bg-muji-card p-6 shadow-soft sm:p-10">
+      <form className="space-y-6" onSubmit={handleSubmit}>
+        <div className="flex flex-wrap items-center justify-between gap-3">
+          <p className="text-xs font-semibold uppercase tracking-[0.3em] text-muji-accent">
+            Fill in the blank
+          </p>
+          <p className="text-sm text-muji-ink/70">
+            {tally.correct} / {tally.total} correct · {questions.length} sentences
+          </p>
+        </div>
+        <div className="space-y-3">
+          <p className="text-xl leading-relaxed text-muji-ink sm:text-2xl">
+            {question.before}
+            <span
+              className={`mx-1 rounded px-1 font-semibold ${
+                result
+                  ? result.verdict === 'wrong'
+                    ? 'bg-rose-100 text-rose-700'
+                    : 'bg-emerald-100 text-emerald-700'
+                  : 'text-muji-accent'
+              }`}
+            >
+              {result ? question.answer : CLOZE_BLANK}
+            </span>
+            {question.after}
+          </p>
+          <p className="text-sm text-muji-ink/60">
+            {question.item.chinese}
+            {question.item.pos && ` · ${question.item.pos}`}
+          </p>
+        </div>
+        <input
+          ref={inputRef}
+          className="w-full rounded-2xl border border-muji-wood/50 bg-white/70 px-4 py-3 text-lg text-muji-ink shadow-soft focus-visible:outline-none focus-visible:ring-2 focus-visible:ring-muji-accent/40"
+          placeholder="Type the missing word as it appears in the sentence"
+          value={answer}
+          onChange={(event) => setAnswer(event.target.value)}
+          readOnly={Boolean(result)}
+          autoCapitalize="off"
+          autoComplete="off"
+          autoCorrect="off"
+          spellCheck={false}
+        />
+        {result && (
+          <p
+            className={`text-sm font-semibold ${
+              result.verdict === 'wrong' ? 'text-rose-700' : 'text-emerald-700'
+            }`}
+          >
+            {result.otherWord
+              ? `“${result.actual}” is a different word.`
+              : verdictLabels[result.verdict]}
+          </p>
+        )}
+        <div className="flex flex-col gap-3 sm:flex-row sm:items-center">
+          <button
+            className="rounded-full bg-muji-accent px-6 py-3 text-sm font-semibold text-white shadow-soft transition hover:bg-muji-accent/90 focus-visible:outline-none focus-visible:ring-2 focus-visible:ring-muji-accent/50 disabled:cursor-not-allowed disabled:opacity-60"
+            type="submit"
+            disabled={!result && !answer.trim()}
+          >
+            {result ? 'Next Sentence' : 'Check'}
+          </button>
+          {result && (
+            <button
+              className="rounded-full border border-muji-wood/60 bg-white/70 px-6 py-3 text-sm font-semibold text-muji-ink shadow-soft transition hover:bg-white focus-visible:outline-none focus-visible:ring-2 focus-visible:ring-muji-wood/60 disabled:cursor-not-allowed disabled:opacity-60"
+              onClick={() => onSpeak(question.item, question.sentence)}
+              type="button"
+              disabled={!speechSupported}
+            >
+              Play Sentence
+            </button>
+          )}
+        </div>
+      </form>
+    </div>
+  );
+}
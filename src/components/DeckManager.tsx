@@ -0,0 +1,177 @@
+import { useState, type ChangeEvent } from 'react';
+import { BUNDLED_DECK_ID, importDeck, type Deck, type DeckFormat } from '../decks';
+import type { ParseIssue } from '../vocab';
+
+type DeckManagerProps = {
+  decks: Deck[];
+  activeIds: string[];
+  onActiveChange: (ids: string[]) => void;
+  onImport: (deck: Deck) => void;
+  onDelete: (id: string) => void;
+  onExport: (deck: Deck) => void;
+};
+
+type ImportSummary = {
+  deckName: string;
+  imported: number;
+  issues: ParseIssue[];
+};
+
+const MAX_LISTED_ISSUES = 50;
+
+const formatLabels: Record<DeckFormat, string> = {
+  bundled: 'Built in',
+  csv: 'CSV',
+  tsv: 'TSV',
+  anki: 'Anki text',
+};
+
+export default function DeckManager({
+  decks,
+  activeIds,
+  onActiveChange,
+  onImport,
+  onDelete,
+  onExport,
+}: DeckManagerProps) {
+  const [summary, setSummary] = useState<ImportSummary | null>(null);
+  const [error, setError] = useState('');
+  const active = new Set(activeIds);
+
+  const handleToggle = (id: string) => {
+    if (active.has(id)) {
+      onActiveChange(activeIds.filter((deckId) => deckId !== id));
+    } else {
+      onActiveChange([...activeIds, id]);
+    }
+  };
+
+  const handleFile = async (event: ChangeEvent<HTMLInputElement>) => {
+    const file = event.target.files?.[0];
+    event.target.value = '';
+    if (!file) {
+      return;
+    }
+
+    try {
+      const text = await file.text();
+      const { deck, issues } = importDeck(file.name, text);
+      if (deck.items.length === 0) {
+        setSummary({ deckName: deck.name, imported: 0, issues });
+        setError('No usable rows were found in that file.');
+        return;
+      }
+
+      onImport(deck);
+      setSummary({ deckName: deck.name, imported: deck.items.length, issues });
+      setError('');
+    } catch (readError) {
+      setSummary(null);
+      setError('Could not read that file.');
+    }
+  };
+
+  const repaired = summary?.issues.filter((issue) => issue.kind === 'repaired').length ?? 0;
+  const dropped = summary?.issues.filter((issue) => issue.kind === 'dropped').length ?? 0;
+
+  return (
+    <div className="rounded-3xl border border-muji-wood/50 bg-muji-card p-6 shadow-soft sm:p-10">
+      <div className="space-y-6">
+        <div className="space-y-2">
+          <p className="text-xs font-semibold uppercase tracking-[0.3em] text-muji-accent">
+            Decks
+          </p>
+          <p className="text-sm text-muji-ink/70">
+            Tick one or more decks to study them together. Words shared between decks keep a
+            single progress record.
+          </p>
+        </div>
+        <ul className="divide-y divide-muji-wood/30 rounded-2xl border border-muji-wood/40 bg-white/60">
+          {decks.map((deck) => (
+            <li key={deck.id} className="flex flex-wrap items-center gap-3 px-4 py-3">
+              <label className="flex flex-1 items-center gap-3 text-sm text-muji-ink">
+                <input
+                  className="accent-muji-accent"
+                  type="checkbox"
+                  checked={active.has(deck.id)}
+                  onChange={() => handleToggle(deck.id)}
+                />
+                <span className="font-semibold">{deck.name}</span>
+                <span className="text-xs text-muji-ink/60">
+                  {deck.items.length} words · {formatLabels[deck.format]}
+                </span>
+              </label>
+              <button
+                className="rounded-full border border-muji-wood/50 bg-white/70 px-4 py-1 text-xs font-semibold text-muji-ink transition hover:bg-white focus-visible:outline-none focus-visible:ring-2 focus-visible:ring-muji-wood/60"
+                onClick={() => onActiveChange([deck.id])}
+                type="button"
+              >
+                Study only this
+              </button>
+              <button
+                className="rounded-full border border-muji-wood/50 bg-white/70 px-4 py-1 text-xs font-semibold text-muji-ink transition hover:bg-white focus-visible:outline-none focus-visible:ring-2 focus-visible:ring-muji-wood/60"
+                onClick={() => onExport(deck)}
+                type="button"
+              >
+                Export CSV
+              </button>
+              {deck.id !== BUNDLED_DECK_ID && (
+                <button
+                  className="rounded-full border border-rose-200 bg-rose-50 px-4 py-1 text-xs font-semibold text-rose-700 transition hover:bg-rose-100 focus-visible:outline-none focus-visible:ring-2 focus-visible:ring-rose-200"
+                  onClick={() => onDelete(deck.id)}
+                  type="button"
+                >
+                  Delete
+                </button>
+              )}
+            </li>
+          ))}
+        </ul>
+        <div className="space-y-2">
+          <label className="text-xs font-semibold uppercase tracking-[0.2em] text-muji-ink/60">
+            Import CSV, TSV or Anki plain-text export
+          </label>
+          <input
+            className="block w-full text-sm text-muji-ink file:mr-4 file:rounded-full file:border-0 file:bg-muji-accent file:px-5 file:py-2 file:text-sm file:font-semibold file:text-white"
+            type="file"
+            accept=".csv,.tsv,.txt,text/csv,text/tab-separated-values,text/plain"
+            onChange={handleFile}
+          />
+          <p className="text-xs text-muji-ink/60">
+            CSV and TSV files use the same headers as the bundled list (English, Chinese
+            Meanings, pos, …). Anki exports use the first field as English and the second as
+            Chinese.
+          </p>
+        </div>
+        {error && <p className="text-sm text-rose-700">{error}</p>}
+        {summary && (
+          <div className="space-y-3 rounded-2xl border border-muji-wood/40 bg-white/70 px-4 py-3">
+            <p className="text-sm text-muji-ink">
+              <span className="font-semibold">{summary.deckName}</span>: {summary.imported}{' '}
+              imported · {repaired} repaired · {dropped} dropped
+            </p>
+            {summary.issues.length > 0 && (
+              <ul className="max-h-64 space-y-1 overflow-y-auto text-xs text-muji-ink/80">
+                {summary.issues.slice(0, MAX_LISTED_ISSUES).map((issue, index) => (
+                  <li key={`${issue.kind}-${issue.line}-${index}`}>
+                    <span
+                      className={`font-semibold ${
+                        issue.kind === 'dropped' ? 'text-rose-700' : 'text-amber-700'
+                      }`}
+                    >
+                      Line {issue.line} {issue.kind}:
+                    </span>{' '}
+                    {issue.reason}
+                  </li>
+                ))}
+                {summary.issues.length > MAX_LISTED_ISSUES && (
+                  <li>…and {summary.issues.length - MAX_LISTED_ISSUES} more.</li>
+                )}
+              </ul>
+            )}
+          </div>
+        )}
+      </div>
+    </div>
+  );
+}
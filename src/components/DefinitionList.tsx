@@ -0,0 +1,66 @@
+import { useMemo } from 'react';
+import { toDisplayChinese, type ChineseConverter, type ChineseScript } from '../chinese';
+import { domainLabel, parseDefinition, posLabels, visibleGroups } from '../definitions';
+
+type DefinitionListProps = {
+  text: string;
+  hiddenDomains: string[];
+  script: ChineseScript;
+  toTraditional: ChineseConverter | null;
+};
+
+export default function DefinitionList({
+  text,
+  hiddenDomains,
+  script,
+  toTraditional,
+}: DefinitionListProps) {
+  const groups = useMemo(() => parseDefinition(text), [text]);
+  const visible = visibleGroups(groups, hiddenDomains);
+  const hidden = groups.filter((group) => !visible.includes(group));
+
+  return (
+    <div className="space-y-2">
+      {visible.length > 0 && (
+        <dl className="space-y-2 text-sm text-muji-ink/80">
+          {visible.map((group) => {
+            const simplified = group.glosses.join('，');
+            const displayed = toDisplayChinese(simplified, script, toTraditional);
+            return (
+              <div
+                key={`${group.pos}-${group.domain}`}
+                className="flex flex-wrap items-baseline gap-2"
+              >
+                <dt className="shrink-0">
+                  {group.domain ? (
+                    <span className="rounded-full border border-sky-200 bg-sky-50 px-2 py-0.5 text-[10px] font-semibold uppercase tracking-[0.15em] text-sky-700">
+                      {domainLabel(group.domain)}
+                    </span>
+                  ) : group.pos ? (
+                    <span
+                      className="rounded-full border border-muji-wood/50 bg-muji-paper px-2 py-0.5 text-[10px] font-semibold text-muji-ink"
+                      title={posLabels[group.pos]}
+                    >
+                      {group.pos}
+                    </span>
+                  ) : null}
+                </dt>
+                <dd className="min-w-0 flex-1">
+                  {displayed}
+                  {script === 'both' && displayed !== simplified && (
+                    <span className="block text-xs text-muji-ink/50">{simplified}</span>
+                  )}
+                </dd>
+              </div>
+            );
+          })}
+        </dl>
+      )}
+      {hidden.length > 0 && (
+        <p className="text-[11px] text-muji-ink/50">
+          Hidden: {hidden.map((group) => domainLabel(group.domain)).join(', ')} senses
+        </p>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,425 @@
+import { useEffect, useState } from 'react';
+import { CLOZE_BLANK, type ExampleMap } from '../examples';
+import {
+  EXAM_QUESTIONS_PER_SECTION,
+  EXAM_SECTION_ORDER,
+  EXAM_TIME_LIMIT_MS,
+  buildExam,
+  estimateScore,
+  examSectionLabels,
+  formatExamTime,
+  scoreExam,
+  type ExamAttempt,
+  type ExamQuestion,
+} from '../exam';
+import type { RelationIndex } from '../families';
+import type { VocabItem } from '../vocab';
+
+type ExamModeProps = {
+  items: VocabItem[];
+  distractorPool: VocabItem[];
+  relations: RelationIndex;
+  byKey: Map<string, VocabItem>;
+  examples: ExampleMap;
+  attempts: ExamAttempt[];
+  speechSupported: boolean;
+  onSpeak: (item: VocabItem) => void;
+  onStopSpeaking: () => void;
+  onFinish: (attempt: ExamAttempt, questions: ExamQuestion[], answers: (number | null)[]) => void;
+  onSelect: (item: VocabItem) => void;
+};
+
+const primaryButtonClassName =
+  'rounded-full bg-muji-accent px-6 py-3 text-sm font-semibold text-white shadow-soft transition hover:bg-muji-accent/90 focus-visible:outline-none focus-visible:ring-2 focus-visible:ring-muji-accent/50 disabled:cursor-not-allowed disabled:opacity-60';
+
+const secondaryButtonClassName =
+  'rounded-full border border-muji-wood/60 bg-white/70 px-6 py-3 text-sm font-semibold text-muji-ink shadow-soft transition hover:bg-white focus-visible:outline-none focus-visible:ring-2 focus-visible:ring-muji-wood/60 disabled:cursor-not-allowed disabled:opacity-60';
+
+const percent = (correct: number, total: number) =>
+  total > 0 ? Math.round((correct / total) * 100) : 0;
+
+const formatDelta = (delta: number) => (delta > 0 ? `+${delta}` : `${delta}`);
+
+function AttemptHistory({ attempts }: { attempts: ExamAttempt[] }) {
+  return (
+    <div className="space-y-3">
+      <p className="text-xs font-semibold uppercase tracking-[0.2em] text-muji-ink/60">
+        Past attempts
+      </p>
+      <ul className="divide-y divide-muji-wood/30 rounded-2xl border border-muji-wood/40 bg-white/60">
+        {attempts.map((attempt, index) => {
+          const estimate = estimateScore(attempt.correct, attempt.total);
+          const previous = attempts[index + 1];
+          const delta = previous
+            ? estimate.score - estimateScore(previous.correct, previous.total).score
+            : null;
+          return (
+            <li
+              key={attempt.id}
+              className="flex flex-wrap items-center justify-between gap-3 px-4 py-3 text-sm"
+            >
+              <div>
+                <p className="font-semibold text-muji-ink">
+                  ≈ {estimate.score}
+                  <span className="ml-2 text-xs font-normal text-muji-ink/60">
+                    {estimate.band.label} · {attempt.correct} / {attempt.total}
+                    {attempt.timedOut ? ' · timed out' : ''}
+                  </span>
+                </p>
+                <p className="text-xs text-muji-ink/60">
+                  {new Date(attempt.finishedAt).toLocaleString()}
+                </p>
+              </div>
+              <div className="flex flex-wrap items-center gap-3 text-xs text-muji-ink/70">
+                {attempt.sections.map((section) => (
+                  <span key={section.section}>
+                    {examSectionLabels[section.section]}{' '}
+                    {percent(section.correct, section.total)}%
+                  </span>
+                ))}
+                {delta !== null && (
+                  <span
+                    className={`font-semibold ${
+                      delta >= 0 ? 'text-emerald-700' : 'text-rose-700'
+                    }`}
+                  >
+                    {formatDelta(delta)}
+                  </span>
+                )}
+              </div>
+            </li>
+          );
+        })}
+      </ul>
+    </div>
+  );
+}
+
+export default function ExamMode({
+  items,
+  distractorPool,
+  relations,
+  byKey,
+  examples,
+  attempts,
+  speechSupported,
+  onSpeak,
+  onStopSpeaking,
+  onFinish,
+  onSelect,
+}: ExamModeProps) {
+  const [questions, setQuestions] = useState<ExamQuestion[]>([]);
+  const [answers, setAnswers] = useState<(number | null)[]>([]);
+  const [position, setPosition] = useState(0);
+  const [startedAt, setStartedAt] = useState(0);
+  const [now, setNow] = useState(() => Date.now());
+  const [result, setResult] = useState<ExamAttempt | null>(null);
+  const running = questions.length > 0 && !result;
+  const question = questions[position];
+  const remainingMs = startedAt + EXAM_TIME_LIMIT_MS - now;
+  const unanswered = answers.filter((answer) => answer === null).length;
+
+  const finish = (timedOut: boolean) => {
+    const attempt = scoreExam(questions, answers, {
+      startedAt,
+      finishedAt: Date.now(),
+      timeLimitMs: EXAM_TIME_LIMIT_MS,
+      timedOut,
+    });
+    onStopSpeaking();
+    setResult(attempt);
+    onFinish(attempt, questions, answers);
+  };
+
+  useEffect(() => {
+    if (!running) {
+      return;
+    }
+
+    const timer = window.setInterval(() => setNow(Date.now()), 1000);
+    return () => window.clearInterval(timer);
+  }, [running]);
+
+  useEffect(() => {
+    if (running && remainingMs <= 0) {
+      finish(true);
+    }
+  });
+
+  const goTo = (index: number, exam = questions) => {
+    setPosition(index);
+    const target = exam[index];
+    if (target?.section === 'listening') {
+      onSpeak(target.item);
+    }
+  };
+
+  const handleStart = () => {
+    const exam = buildExam(items, distractorPool, relations, byKey, examples, {
+      listening: speechSupported,
+    });
+    const start = Date.now();
+    setQuestions(exam);
+    setAnswers(exam.map(() => null));
+    setStartedAt(start);
+    setNow(start);
+    setResult(null);
+    goTo(0, exam);
+  };
+
+  const handleChoose = (index: number) => {
+    setAnswers((prev) => prev.map((answer, slot) => (slot === position ? index : answer)));
+  };
+
+  const handleReset = () => {
+    setQuestions([]);
+    setAnswers([]);
+    setPosition(0);
+    setResult(null);
+  };
+
+  if (result) {
+    const estimate = estimateScore(result.correct, result.total);
+    return (
+      <div className="rounded-3xl border border-muji-wood/50 bg-muji-card p-6 shadow-soft sm:p-10">
+        <div className="space-y-8">
+          <div>
+            <p className="text-xs font-semibold uppercase tracking-[0.3em] text-muji-accent">
+              Mock Test Report
+            </p>
+            <p className="mt-3 text-4xl font-semibold text-muji-ink">≈ {estimate.score}</p>
+            <p className="mt-1 text-sm text-muji-ink/70">
+              Likely range {estimate.low}–{estimate.high} · {estimate.band.label} band ·{' '}
+              {estimate.band.description}
+            </p>
+            <p className="mt-1 text-sm text-muji-ink/70">
+              {result.correct} / {result.total} correct in{' '}
+              {formatExamTime(result.finishedAt - result.startedAt)}
+              {result.timedOut ? ' · time ran out' : ''}
+            </p>
+          </div>
+          <div className="space-y-3">
+            <p className="text-xs font-semibold uppercase tracking-[0.2em] text-muji-ink/60">
+              Sections
+            </p>
+            {result.sections.map((section) => (
+              <div key={section.section} className="space-y-1">
+                <div className="flex justify-between text-sm text-muji-ink">
+                  <span>{examSectionLabels[section.section]}</span>
+                  <span className="text-muji-ink/70">
+                    {section.correct} / {section.total}
+                  </span>
+                </div>
+                <div className="h-2 overflow-hidden rounded-full bg-muji-wood/20">
+                  <div
+                    className="h-full rounded-full bg-muji-accent"
+                    style={{ width: `${percent(section.correct, section.total)}%` }}
+                  />
+                </div>
+              </div>
+            ))}
+          </div>
+          {result.misses.length > 0 && (
+            <div className="space-y-3">
+              <p className="text-xs font-semibold uppercase tracking-[0.2em] text-muji-ink/60">
+                Review wrong answers
+              </p>
+              <ul className="divide-y divide-muji-wood/30 rounded-2xl border border-muji-wood/40 bg-white/60">
+                {result.misses.map((miss) => {
+                  const item = byKey.get(miss.key);
+                  return (
+                    <li
+                      key={`${miss.section}-${miss.key}`}
+                      className="flex flex-wrap items-start justify-between gap-3 px-4 py-3 text-sm"
+                    >
+                      <div className="space-y-1">
+                        <p className="font-semibold text-muji-ink">
+                          {item?.english ?? miss.key}
+                          <span className="ml-2 text-xs font-normal uppercase tracking-[0.2em] text-muji-ink/50">
+                            {examSectionLabels[miss.section]}
+                          </span>
+                        </p>
+                        {item && <p className="text-muji-ink/80">{item.chinese}</p>}
+                        <p className="text-xs text-rose-700">
+                          Your answer: {miss.chosen ?? 'No answer'}
+                        </p>
+                        <p className="text-xs text-emerald-700">Correct: {miss.answer}</p>
+                      </div>
+                      {item && (
+                        <button
+                          className="rounded-full border border-muji-wood/60 bg-white/70 px-4 py-2 text-xs font-semibold text-muji-ink transition hover:bg-white focus-visible:outline-none focus-visible:ring-2 focus-visible:ring-muji-wood/60"
+                          onClick={() => onSelect(item)}
+                          type="button"
+                        >
+                          Open card
+                        </button>
+                      )}
+                    </li>
+                  );
+                })}
+              </ul>
+            </div>
+          )}
+          <div className="flex flex-col gap-3 sm:flex-row">
+            <button className={primaryButtonClassName} onClick={handleStart} type="button">
+              New Mock Test
+            </button>
+            <button className={secondaryButtonClassName} onClick={handleReset} type="button">
+              Done
+            </button>
+          </div>
+          {attempts.length > 1 && <AttemptHistory attempts={attempts} />}
+        </div>
+      </div>
+    );
+  }
+
+  if (!question) {
+    return (
+      <div className="rounded-3xl border border-muji-wood/50 bg-muji-card p-6 shadow-soft sm:p-10">
+        <div className="space-y-6">
+          <p className="text-xs font-semibold uppercase tracking-[0.3em] text-muji-accent">
+            Mock Test
+          </p>
+          <div className="space-y-2 text-sm text-muji-ink/80">
+            <p>
+              A timed run of {EXAM_QUESTIONS_PER_SECTION} questions per section with{' '}
+              {formatExamTime(EXAM_TIME_LIMIT_MS)} on the clock. Answers are only marked once you
+              submit or the time runs out.
+            </p>
+            <ul className="list-inside list-disc text-muji-ink/70">
+              {EXAM_SECTION_ORDER.map((section) => (
+                <li key={section}>
+                  {examSectionLabels[section]}
+                  {section === 'listening' && !speechSupported
+                    ? ' — skipped, this browser cannot speak'
+                    : ''}
+                </li>
+              ))}
+            </ul>
+          </div>
+          <button
+            className={primaryButtonClassName}
+            onClick={handleStart}
+            type="button"
+            disabled={items.length < 2}
+          >
+            Start Mock Test
+          </button>
+          {attempts.length > 0 && <AttemptHistory attempts={attempts} />}
+        </div>
+      </div>
+    );
+  }
+
+  const choice = answers[position];
+
+  return (
+    <div className="rounded-3xl border border-muji-wood/50 bg-muji-card p-6 shadow-soft sm:p-10">
+      <div className="space-y-6">
+        <div className="flex flex-wrap items-center justify-between gap-3">
+          <p className="text-xs font-semibold uppercase tracking-[0.3em] text-muji-accent">
+            {examSectionLabels[question.section]} · Question {position + 1} / {questions.length}
+          </p>
+          <p
+            className={`font-mono text-sm font-semibold ${
+              remainingMs < 60 * 1000 ? 'text-rose-700' : 'text-muji-ink/70'
+            }`}
+            aria-live="off"
+          >
+            {formatExamTime(remainingMs)}
+          </p>
+        </div>
+        {question.section === 'listening' ? (
+          <div className="flex flex-wrap items-center gap-4">
+            <p className="text-xl text-muji-ink">Choose the meaning of the word you hear.</p>
+            <button
+              className={secondaryButtonClassName}
+              onClick={() => onSpeak(question.item)}
+              type="button"
+            >
+              Play again
+            </button>
+          </div>
+        ) : question.section === 'forms' ? (
+          <div className="space-y-3">
+            <p className="text-xl text-muji-ink sm:text-2xl">{question.prompt}</p>
+            {question.context && (
+              <p className="text-base leading-relaxed text-muji-ink/80">
+                {question.context.before}
+                <span className="mx-1 font-semibold text-muji-accent">{CLOZE_BLANK}</span>
+                {question.context.after}
+              </p>
+            )}
+          </div>
+        ) : (
+          <p className="text-3xl font-semibold text-muji-ink sm:text-4xl">{question.prompt}</p>
+        )}
+        <div className="grid gap-3 sm:grid-cols-2">
+          {question.options.map((option, index) => (
+            <button
+              key={option}
+              className={`w-full rounded-2xl border px-4 py-3 text-left text-sm shadow-soft transition focus-visible:outline-none focus-visible:ring-2 focus-visible:ring-muji-accent/40 ${
+                choice === index
+                  ? 'border-muji-accent bg-muji-accent/15 font-semibold text-muji-ink'
+                  : 'border-muji-wood/60 bg-white/70 text-muji-ink hover:bg-white'
+              }`}
+              onClick={() => handleChoose(index)}
+              type="button"
+              aria-pressed={choice === index}
+            >
+              {option}
+            </button>
+          ))}
+        </div>
+        <div className="flex flex-wrap gap-1.5">
+          {questions.map((entry, index) => (
+            <button
+              key={`${entry.section}-${entry.item.englishKey}`}
+              className={`h-7 w-7 rounded-full border text-[11px] font-semibold transition focus-visible:outline-none focus-visible:ring-2 focus-visible:ring-muji-accent/40 ${
+                index === position
+                  ? 'border-muji-accent bg-muji-accent text-white'
+                  : answers[index] !== null
+                    ? 'border-muji-wood/60 bg-muji-wood/30 text-muji-ink'
+                    : 'border-muji-wood/50 bg-white/60 text-muji-ink/60 hover:bg-white'
+              }`}
+              onClick={() => goTo(index)}
+              type="button"
+              title={examSectionLabels[entry.section]}
+            >
+              {index + 1}
+            </button>
+          ))}
+        </div>
+        <div className="flex flex-col gap-3 sm:flex-row sm:items-center sm:justify-between">
+          <div className="flex gap-3">
+            <button
+              className={secondaryButtonClassName}
+              onClick={() => goTo(position - 1)}
+              type="button"
+              disabled={position === 0}
+            >
+              Previous
+            </button>
+            <button
+              className={secondaryButtonClassName}
+              onClick={() => goTo(position + 1)}
+              type="button"
+              disabled={position + 1 >= questions.length}
+            >
+              Next
+            </button>
+          </div>
+          <div className="flex flex-wrap items-center gap-3">
+            {unanswered > 0 && (
+              <span className="text-sm text-muji-ink/60">{unanswered} unanswered</span>
+            )}
+            <button className={primaryButtonClassName} onClick={() => finish(false)} type="button">
+              Submit
+            </button>
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,74 @@
+import { highlightTerm, type ExampleEntry } from '../examples';
+import type { SpokenRange } from '../speech';
+import SpokenText from './SpokenText';
+
+type ExamplePanelProps = {
+  term: string;
+  entry: ExampleEntry;
+  speechSupported: boolean;
+  spoken: SpokenRange | null;
+  onSpeak: (sentence: string) => void;
+};
+
+export default function ExamplePanel({
+  term,
+  entry,
+  speechSupported,
+  spoken,
+  onSpeak,
+}: ExamplePanelProps) {
+  return (
+    <div className="space-y-3 rounded-2xl border border-muji-wood/40 bg-white/60 px-4 py-3">
+      <p className="text-[11px] font-semibold uppercase tracking-[0.25em] text-muji-accent">
+        In Context
+      </p>
+      {entry.sentences.length > 0 && (
+        <ul className="space-y-2">
+          {entry.sentences.map((sentence) => (
+            <li key={sentence} className="flex items-start gap-3 text-sm text-muji-ink/90">
+              <button
+                className="mt-0.5 shrink-0 rounded-full border border-muji-wood/50 bg-white/70 px-2 py-0.5 text-xs text-muji-ink transition hover:bg-white focus-visible:outline-none focus-visible:ring-2 focus-visible:ring-muji-wood/60 disabled:cursor-not-allowed disabled:opacity-60"
+                onClick={() => onSpeak(sentence)}
+                type="button"
+                disabled={!speechSupported}
+                aria-label="Play sentence"
+              >
+                ▶
+              </button>
+              <span>
+                {spoken?.text === sentence ? (
+                  <SpokenText text={sentence} spoken={spoken} />
+                ) : (
+                  highlightTerm(sentence, term).map((segment, index) =>
+                    segment.match ? (
+                      <mark
+                        key={index}
+                        className="rounded bg-muji-accent/15 px-0.5 font-semibold text-muji-ink"
+                      >
+                        {segment.text}
+                      </mark>
+                    ) : (
+                      <span key={index}>{segment.text}</span>
+                    )
+                  )
+                )}
+              </span>
+            </li>
+          ))}
+        </ul>
+      )}
+      {entry.collocations.length > 0 && (
+        <div className="flex flex-wrap gap-2">
+          {entry.collocations.map((collocation) => (
+            <span
+              key={collocation}
+              className="rounded-full border border-muji-wood/50 bg-muji-paper px-3 py-1 text-xs text-muji-ink"
+            >
+              {collocation}
+            </span>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,229 @@
+import { useMemo, useState } from 'react';
+import type { ChineseConverter, ChineseScript } from '../chinese';
+import {
+  createCorrection,
+  isFlagged,
+  isStaleCorrection,
+  type Correction,
+  type CorrectionDecision,
+  type CorrectionMap,
+} from '../corrections';
+import type { VocabItem } from '../vocab';
+import DefinitionList from './DefinitionList';
+
+type FlaggedReviewProps = {
+  items: VocabItem[];
+  corrections: CorrectionMap;
+  hiddenDomains: string[];
+  chineseScript: ChineseScript;
+  toTraditional: ChineseConverter | null;
+  onDecide: (key: string, correction: Correction) => void;
+  onUndo: (key: string) => void;
+};
+
+type ReviewFilter = 'pending' | 'all';
+
+const decisionLabels: Record<CorrectionDecision, string> = {
+  accepted: 'Suggestion accepted',
+  edited: 'Edited',
+  rejected: 'Original kept',
+};
+
+export default function FlaggedReview({
+  items,
+  corrections,
+  hiddenDomains,
+  chineseScript,
+  toTraditional,
+  onDecide,
+  onUndo,
+}: FlaggedReviewProps) {
+  const [filter, setFilter] = useState<ReviewFilter>('pending');
+  const [editingKey, setEditingKey] = useState('');
+  const [draft, setDraft] = useState('');
+
+  const flagged = useMemo(() => items.filter(isFlagged), [items]);
+  const pendingCount = flagged.filter((item) => !corrections[item.englishKey]).length;
+  const visible =
+    filter === 'pending' ? flagged.filter((item) => !corrections[item.englishKey]) : flagged;
+
+  const handleDecide = (item: VocabItem, decision: CorrectionDecision, chinese: string) => {
+    onDecide(item.englishKey, createCorrection(item, decision, chinese));
+    setEditingKey('');
+  };
+
+  const handleStartEdit = (item: VocabItem) => {
+    const correction = corrections[item.englishKey];
+    setEditingKey(item.englishKey);
+    setDraft(correction?.chinese || item.suggestedZh || item.chinese);
+  };
+
+  return (
+    <div className="rounded-3xl border border-muji-wood/50 bg-muji-card p-6 shadow-soft sm:p-10">
+      <div className="space-y-6">
+        <div className="flex flex-wrap items-end justify-between gap-4">
+          <div className="space-y-2">
+            <p className="text-xs font-semibold uppercase tracking-[0.3em] text-muji-accent">
+              Flagged Entries
+            </p>
+            <p className="text-sm text-muji-ink/70">
+              {pendingCount} of {flagged.length} flagged words still need a decision. Corrections
+              are stored separately and re-applied whenever the word list is updated.
+            </p>
+          </div>
+          <div className="flex gap-2">
+            {(['pending', 'all'] as ReviewFilter[]).map((value) => (
+              <button
+                key={value}
+                className={`rounded-full border px-4 py-1 text-xs font-semibold transition focus-visible:outline-none focus-visible:ring-2 focus-visible:ring-muji-wood/60 ${
+                  filter === value
+                    ? 'border-muji-accent/60 bg-muji-accent text-white'
+                    : 'border-muji-wood/50 bg-white/70 text-muji-ink hover:bg-white'
+                }`}
+                onClick={() => setFilter(value)}
+                type="button"
+              >
+                {value === 'pending' ? 'Pending' : 'All flagged'}
+              </button>
+            ))}
+          </div>
+        </div>
+        {visible.length === 0 ? (
+          <p className="text-sm text-muji-ink/70">
+            {flagged.length === 0
+              ? 'No entries in the active decks are flagged.'
+              : 'Every flagged entry has been reviewed.'}
+          </p>
+        ) : (
+          <ul className="space-y-4">
+            {visible.map((item) => {
+              const correction = corrections[item.englishKey];
+              const editing = editingKey === item.englishKey;
+              return (
+                <li
+                  key={item.englishKey}
+                  className="space-y-4 rounded-2xl border border-muji-wood/40 bg-white/70 px-4 py-4"
+                >
+                  <div className="flex flex-wrap items-center gap-3">
+                    <p className="text-lg font-semibold text-muji-ink">{item.english}</p>
+                    {correction && (
+                      <span className="rounded-full border border-emerald-200 bg-emerald-50 px-3 py-1 text-[11px] font-semibold uppercase tracking-[0.2em] text-emerald-700">
+                        {decisionLabels[correction.decision]}
+                      </span>
+                    )}
+                    {correction && isStaleCorrection(item, correction) && (
+                      <span className="text-[11px] text-amber-700">
+                        The word list changed since this decision.
+                      </span>
+                    )}
+                  </div>
+                  <dl className="grid gap-3 text-sm sm:grid-cols-2">
+                    <div>
+                      <dt className="text-[11px] font-semibold uppercase tracking-[0.2em] text-muji-ink/60">
+                        Original
+                      </dt>
+                      <dd className="mt-1 text-muji-ink">{item.chinese}</dd>
+                    </div>
+                    <div>
+                      <dt className="text-[11px] font-semibold uppercase tracking-[0.2em] text-muji-ink/60">
+                        Suggestion
+                      </dt>
+                      <dd className="mt-1 text-muji-ink">{item.suggestedZh || '—'}</dd>
+                    </div>
+                    <div>
+                      <dt className="text-[11px] font-semibold uppercase tracking-[0.2em] text-muji-ink/60">
+                        Notes
+                      </dt>
+                      <dd className="mt-1 text-muji-ink/80">{item.notes || '—'}</dd>
+                    </div>
+                    <div>
+                      <dt className="text-[11px] font-semibold uppercase tracking-[0.2em] text-muji-ink/60">
+                        Dictionary
+                      </dt>
+                      <dd className="mt-1">
+                        {item.ecdictZh ? (
+                          <DefinitionList
+                            text={item.ecdictZh}
+                            hiddenDomains={hiddenDomains}
+                            script={chineseScript}
+                            toTraditional={toTraditional}
+                          />
+                        ) : (
+                          '—'
+                        )}
+                      </dd>
+                    </div>
+                  </dl>
+                  {correction && correction.decision !== 'rejected' && (
+                    <p className="text-sm text-muji-ink">
+                      <span className="font-semibold">Now studying as:</span> {correction.chinese}
+                    </p>
+                  )}
+                  {editing ? (
+                    <div className="flex flex-col gap-3 sm:flex-row">
+                      <input
+                        className="flex-1 rounded-2xl border border-muji-wood/50 bg-white/70 px-4 py-2 text-sm text-muji-ink shadow-soft focus-visible:outline-none focus-visible:ring-2 focus-visible:ring-muji-accent/40"
+                        value={draft}
+                        onChange={(event) => setDraft(event.target.value)}
+                        aria-label={`Corrected meaning for ${item.english}`}
+                      />
+                      <button
+                        className="rounded-full bg-muji-accent px-5 py-2 text-sm font-semibold text-white shadow-soft transition hover:bg-muji-accent/90 focus-visible:outline-none focus-visible:ring-2 focus-visible:ring-muji-accent/50 disabled:cursor-not-allowed disabled:opacity-60"
+                        onClick={() => handleDecide(item, 'edited', draft)}
+                        type="button"
+                        disabled={!draft.trim()}
+                      >
+                        Save
+                      </button>
+                      <button
+                        className="rounded-full border border-muji-wood/60 bg-white/70 px-5 py-2 text-sm font-semibold text-muji-ink shadow-soft transition hover:bg-white focus-visible:outline-none focus-visible:ring-2 focus-visible:ring-muji-wood/60"
+                        onClick={() => setEditingKey('')}
+                        type="button"
+                      >
+                        Cancel
+                      </button>
+                    </div>
+                  ) : (
+                    <div className="flex flex-wrap gap-2">
+                      <button
+                        className="rounded-full bg-muji-accent px-5 py-2 text-sm font-semibold text-white shadow-soft transition hover:bg-muji-accent/90 focus-visible:outline-none focus-visible:ring-2 focus-visible:ring-muji-accent/50 disabled:cursor-not-allowed disabled:opacity-60"
+                        onClick={() => handleDecide(item, 'accepted', item.suggestedZh)}
+                        type="button"
+                        disabled={!item.suggestedZh}
+                      >
+                        Accept suggestion
+                      </button>
+                      <button
+                        className="rounded-full border border-muji-wood/60 bg-white/70 px-5 py-2 text-sm font-semibold text-muji-ink shadow-soft transition hover:bg-white focus-visible:outline-none focus-visible:ring-2 focus-visible:ring-muji-wood/60"
+                        onClick={() => handleStartEdit(item)}
+                        type="button"
+                      >
+                        Edit
+                      </button>
+                      <button
+                        className="rounded-full border border-muji-wood/60 bg-white/70 px-5 py-2 text-sm font-semibold text-muji-ink shadow-soft transition hover:bg-white focus-visible:outline-none focus-visible:ring-2 focus-visible:ring-muji-wood/60"
+                        onClick={() => handleDecide(item, 'rejected', item.chinese)}
+                        type="button"
+                      >
+                        Keep original
+                      </button>
+                      {correction && (
+                        <button
+                          className="rounded-full border border-rose-200 bg-rose-50 px-5 py-2 text-sm font-semibold text-rose-700 transition hover:bg-rose-100 focus-visible:outline-none focus-visible:ring-2 focus-visible:ring-rose-200"
+                          onClick={() => onUndo(item.englishKey)}
+                          type="button"
+                        >
+                          Undo
+                        </button>
+                      )}
+                    </div>
+                  )}
+                </li>
+              );
+            })}
+          </ul>
+        )}
+      </div>
+    </div>
+  );
+}
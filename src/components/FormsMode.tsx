@@ -0,0 +1,153 @@
+import { useEffect, useMemo, useState } from 'react';
+import { CLOZE_BLANK, type ExampleMap } from '../examples';
+import {
+  buildFormQuestion,
+  hasFormDrill,
+  posLabel,
+  type FormQuestion,
+  type RelationIndex,
+} from '../families';
+import { shuffle } from '../random';
+import type { VocabItem } from '../vocab';
+
+type FormsModeProps = {
+  items: VocabItem[];
+  relations: RelationIndex;
+  byKey: Map<string, VocabItem>;
+  examples: ExampleMap;
+  onAnswer: (item: VocabItem, correct: boolean) => void;
+};
+
+const optionClassName = (question: FormQuestion, index: number, choiceIndex: number | null) => {
+  const base =
+    'w-full rounded-2xl border px-4 py-3 text-left text-sm shadow-soft transition focus-visible:outline-none focus-visible:ring-2 focus-visible:ring-muji-accent/40 disabled:cursor-default';
+
+  if (choiceIndex === null) {
+    return `${base} border-muji-wood/60 bg-white/70 text-muji-ink hover:bg-white`;
+  }
+  if (index === question.answerIndex) {
+    return `${base} border-emerald-300 bg-emerald-50 text-emerald-800`;
+  }
+  if (index === choiceIndex) {
+    return `${base} border-rose-300 bg-rose-50 text-rose-800`;
+  }
+  return `${base} border-muji-wood/40 bg-white/50 text-muji-ink/60`;
+};
+
+const nextQuestion = (
+  pool: VocabItem[],
+  relations: RelationIndex,
+  byKey: Map<string, VocabItem>,
+  examples: ExampleMap,
+  excludeKey?: string
+) => {
+  const item = shuffle(pool).find((candidate) => candidate.englishKey !== excludeKey) ?? pool[0];
+  return item ? buildFormQuestion(item, relations, byKey, examples) : null;
+};
+
+export default function FormsMode({
+  items,
+  relations,
+  byKey,
+  examples,
+  onAnswer,
+}: FormsModeProps) {
+  const pool = useMemo(
+    () => items.filter((item) => hasFormDrill(item, relations, byKey)),
+    [items, relations, byKey]
+  );
+  const [question, setQuestion] = useState(() =>
+    nextQuestion(pool, relations, byKey, examples)
+  );
+  const [choiceIndex, setChoiceIndex] = useState<number | null>(null);
+  const [tally, setTally] = useState({ correct: 0, total: 0 });
+
+  useEffect(() => {
+    if (!question && pool.length > 0) {
+      setQuestion(nextQuestion(pool, relations, byKey, examples));
+    }
+  }, [question, pool, relations, byKey, examples]);
+
+  const handleNext = () => {
+    setQuestion(nextQuestion(pool, relations, byKey, examples, question?.item.englishKey));
+    setChoiceIndex(null);
+  };
+
+  const handleChoose = (index: number) => {
+    if (!question || choiceIndex !== null) {
+      return;
+    }
+    const correct = index === question.answerIndex;
+    setChoiceIndex(index);
+    setTally((prev) => ({ correct: prev.correct + (correct ? 1 : 0), total: prev.total + 1 }));
+    onAnswer(question.item, correct);
+  };
+
+  if (!question) {
+    return (
+      <div className="rounded-3xl border border-muji-wood/50 bg-muji-card p-6 shadow-soft sm:p-10">
+        <p className="text-lg text-muji-ink/70">
+          None of these words belong to a family with more than one part of speech.
+        </p>
+      </div>
+    );
+  }
+
+  return (
+    <div className="rounded-3xl border border-muji-wood/50 bg-muji-card p-6 shadow-soft sm:p-10">
+      <div className="space-y-6">
+        <div className="flex flex-wrap items-center justify-between gap-3">
+          <p className="text-xs font-semibold uppercase tracking-[0.3em] text-muji-accent">
+            Word Forms
+          </p>
+          <p className="text-sm text-muji-ink/70">
+            {tally.correct} / {tally.total} correct · {pool.length} words
+          </p>
+        </div>
+        <div className="space-y-3">
+          <p className="text-xl text-muji-ink sm:text-2xl">
+            Which form is the <span className="font-semibold">{posLabel(question.pos)}</span>{' '}
+            meaning “{question.item.chinese}”?
+          </p>
+          {question.context && (
+            <p className="text-base leading-relaxed text-muji-ink/80">
+              {question.context.before}
+              <span className="mx-1 font-semibold text-muji-accent">
+                {choiceIndex === null ? CLOZE_BLANK : question.context.answer}
+              </span>
+              {question.context.after}
+            </p>
+          )}
+        </div>
+        <div className="grid gap-3 sm:grid-cols-2">
+          {question.options.map((option, index) => (
+            <button
+              key={option.englishKey}
+              className={optionClassName(question, index, choiceIndex)}
+              onClick={() => handleChoose(index)}
+              type="button"
+              disabled={choiceIndex !== null}
+            >
+              {/* The headword carries its part of speech, so show the bare key until answered. */}
+              <span className="font-semibold">{option.englishKey}</span>
+              {choiceIndex !== null && (
+                <span className="ml-2 text-xs text-muji-ink/60">
+                  {option.pos} {option.chinese}
+                </span>
+              )}
+            </button>
+          ))}
+        </div>
+        {choiceIndex !== null && (
+          <button
+            className="rounded-full bg-muji-accent px-6 py-3 text-sm font-semibold text-white shadow-soft transition hover:bg-muji-accent/90 focus-visible:outline-none focus-visible:ring-2 focus-visible:ring-muji-accent/50"
+            onClick={handleNext}
+            type="button"
+          >
+            Next Word
+          </button>
+        )}
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,236 @@
+import {
+  useDeferredValue,
+  useEffect,
+  useMemo,
+  useState,
+  type KeyboardEvent,
+  type Ref,
+} from 'react';
+import {
+  buildLookupIndex,
+  isChineseQuery,
+  searchLookup,
+  type DictionaryMap,
+  type LookupCandidate,
+  type LookupMatch,
+} from '../lookup';
+import {
+  loadTraditionalConverter,
+  toDisplayChinese,
+  type ChineseConverter,
+  type ChineseScript,
+} from '../chinese';
+import { summarizeDefinition } from '../definitions';
+import { normalizeLookup, type VocabItem } from '../vocab';
+import DefinitionList from './DefinitionList';
+
+type LookupPanelProps = {
+  dictionary: DictionaryMap;
+  dictionaryReady: boolean;
+  dictionaryError: string | null;
+  items: VocabItem[];
+  hiddenDomains: string[];
+  chineseScript: ChineseScript;
+  toTraditional: ChineseConverter | null;
+  onLookup: (key: string, found: boolean) => void;
+  inputRef?: Ref<HTMLInputElement>;
+};
+
+const matchLabels: Record<LookupMatch, string> = {
+  exact: 'Exact',
+  lemma: 'Base form',
+  prefix: 'Starts with',
+  fuzzy: 'Did you mean',
+  reverse: 'Chinese match',
+};
+
+export default function LookupPanel({
+  dictionary,
+  dictionaryReady,
+  dictionaryError,
+  items,
+  hiddenDomains,
+  chineseScript,
+  toTraditional,
+  onLookup,
+  inputRef,
+}: LookupPanelProps) {
+  const [term, setTerm] = useState('');
+  const [selected, setSelected] = useState<LookupCandidate | null>(null);
+  const [message, setMessage] = useState('');
+  const [searchConverter, setSearchConverter] = useState<ChineseConverter | null>(null);
+  const deferredTerm = useDeferredValue(term);
+  const chineseQuery = isChineseQuery(deferredTerm);
+  const scriptConverter = toTraditional ?? searchConverter;
+
+  // Simplified readers skip the display converter, so load it on the first Chinese query.
+  useEffect(() => {
+    if (!chineseQuery || scriptConverter) {
+      return;
+    }
+
+    let cancelled = false;
+    loadTraditionalConverter()
+      .then((convert) => {
+        if (!cancelled) {
+          setSearchConverter(() => convert);
+        }
+      })
+      .catch(() => {
+        // Without the converter, reverse search only matches text in the script it was typed in.
+      });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [chineseQuery, scriptConverter]);
+
+  const index = useMemo(
+    () => buildLookupIndex(dictionary, items, scriptConverter),
+    [dictionary, items, scriptConverter]
+  );
+  const candidates = useMemo(
+    () => (dictionaryReady ? searchLookup(index, deferredTerm) : []),
+    [index, deferredTerm, dictionaryReady]
+  );
+
+  const handleSelect = (candidate: LookupCandidate) => {
+    setSelected(candidate);
+    setMessage('');
+    onLookup(candidate.term, true);
+  };
+
+  const handleLookup = () => {
+    if (!dictionaryReady) {
+      setSelected(null);
+      setMessage('Dictionary is still loading.');
+      return;
+    }
+
+    const query = term.trim();
+    if (!query) {
+      setSelected(null);
+      setMessage('Enter a word to look up.');
+      return;
+    }
+
+    const [best] = searchLookup(index, query);
+    if (!best) {
+      setSelected(null);
+      setMessage('No dictionary match found.');
+      onLookup(isChineseQuery(query) ? query : normalizeLookup(query), false);
+      return;
+    }
+
+    handleSelect(best);
+  };
+
+  const handleKeyDown = (event: KeyboardEvent<HTMLInputElement>) => {
+    if (event.key === 'Enter') {
+      handleLookup();
+    } else if (event.key === 'Escape') {
+      event.currentTarget.blur();
+    }
+  };
+
+  return (
+    <div className="rounded-3xl border border-muji-wood/40 bg-muji-card/70 px-4 py-4 sm:px-6">
+      <div className="space-y-3">
+        <p className="text-xs font-semibold uppercase tracking-[0.3em] text-muji-accent">
+          Dictionary Lookup
+        </p>
+        <div className="flex flex-col gap-3 sm:flex-row sm:items-end">
+          <div className="flex-1">
+            <label className="text-xs font-semibold uppercase tracking-[0.2em] text-muji-ink/60">
+              English or Chinese
+            </label>
+            <input
+              className="mt-2 w-full rounded-2xl border border-muji-wood/50 bg-white/70 px-4 py-3 text-sm text-muji-ink shadow-soft focus-visible:outline-none focus-visible:ring-2 focus-visible:ring-muji-accent/40"
+              placeholder="Type a word (e.g., lumber, shipments, 運費)"
+              value={term}
+              onChange={(event) => {
+                setTerm(event.target.value);
+                setMessage('');
+              }}
+              ref={inputRef}
+              onKeyDown={handleKeyDown}
+              disabled={!dictionaryReady}
+            />
+          </div>
+          <button
+            className="rounded-full border border-muji-accent/50 bg-muji-accent/10 px-6 py-3 text-sm font-semibold text-muji-ink shadow-soft transition hover:bg-muji-accent/20 focus-visible:outline-none focus-visible:ring-2 focus-visible:ring-muji-accent/40 disabled:cursor-not-allowed disabled:opacity-60"
+            onClick={handleLookup}
+            type="button"
+            disabled={!dictionaryReady}
+          >
+            Look up
+          </button>
+        </div>
+        {!dictionaryReady && (
+          <p className="text-xs text-muji-ink/60">
+            {dictionaryError ? `Dictionary unavailable: ${dictionaryError}` : 'Loading dictionary data…'}
+          </p>
+        )}
+        {message && <p className="text-xs text-muji-ink/60">{message}</p>}
+        {candidates.length > 0 && (
+          <ul className="divide-y divide-muji-wood/30 rounded-2xl border border-muji-wood/40 bg-white/60">
+            {candidates.map((candidate) => (
+              <li key={candidate.term}>
+                <button
+                  className={`flex w-full flex-wrap items-baseline gap-x-3 gap-y-1 px-4 py-2 text-left text-sm transition hover:bg-white focus-visible:outline-none focus-visible:ring-2 focus-visible:ring-muji-accent/40 ${
+                    selected?.term === candidate.term ? 'bg-muji-accent/10' : ''
+                  }`}
+                  onClick={() => handleSelect(candidate)}
+                  type="button"
+                >
+                  <span className="font-semibold text-muji-ink">{candidate.term}</span>
+                  <span className="rounded-full border border-muji-wood/50 bg-muji-paper px-2 py-0.5 text-[10px] font-semibold uppercase tracking-[0.15em] text-muji-ink/70">
+                    {matchLabels[candidate.match]}
+                  </span>
+                  <span className="min-w-0 flex-1 truncate text-xs text-muji-ink/60">
+                    {candidate.vocab?.chinese ||
+                      toDisplayChinese(
+                        summarizeDefinition(candidate.zh, hiddenDomains),
+                        chineseScript,
+                        toTraditional
+                      )}
+                  </span>
+                </button>
+              </li>
+            ))}
+          </ul>
+        )}
+        {selected && (
+          <div className="rounded-2xl border border-muji-wood/40 bg-white/70 px-4 py-3 text-sm text-muji-ink/80">
+            <div className="flex flex-wrap items-center gap-2 text-[11px] font-semibold uppercase tracking-[0.2em] text-muji-accent">
+              <span>{selected.term}</span>
+              {selected.pos && (
+                <span className="rounded-full border border-muji-wood/50 bg-muji-paper px-2 py-1 text-[10px] text-muji-ink">
+                  {selected.pos}
+                </span>
+              )}
+              {selected.lemmaOf && (
+                <span className="text-[10px] normal-case tracking-normal text-muji-ink/60">
+                  base form of “{selected.lemmaOf}”
+                </span>
+              )}
+            </div>
+            {selected.vocab && (
+              <p className="mt-2 text-sm font-semibold text-muji-ink">{selected.vocab.chinese}</p>
+            )}
+            {selected.zh && (
+              <div className="mt-2">
+                <DefinitionList
+                  text={selected.zh}
+                  hiddenDomains={hiddenDomains}
+                  script={chineseScript}
+                  toTraditional={toTraditional}
+                />
+              </div>
+            )}
+          </div>
+        )}
+      </div>
+    </div>
+  );
+}
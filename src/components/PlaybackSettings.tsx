@@ -0,0 +1,118 @@
+import { useState } from 'react';
+import {
+  builtInScripts,
+  createScriptId,
+  formatScript,
+  parseScript,
+  type PlaybackScript,
+} from '../playback';
+
+type PlaybackSettingsProps = {
+  scripts: PlaybackScript[];
+  selectedId: string;
+  disabled: boolean;
+  onSelect: (id: string) => void;
+  onSave: (script: PlaybackScript) => void;
+  onDelete: (id: string) => void;
+};
+
+const builtInIds = new Set(builtInScripts.map((script) => script.id));
+
+export default function PlaybackSettings({
+  scripts,
+  selectedId,
+  disabled,
+  onSelect,
+  onSave,
+  onDelete,
+}: PlaybackSettingsProps) {
+  const [draft, setDraft] = useState('');
+  const [draftName, setDraftName] = useState('');
+  const [error, setError] = useState('');
+  const selected = scripts.find((script) => script.id === selectedId);
+  const isCustom = Boolean(selected && !builtInIds.has(selected.id));
+
+  const handleSave = () => {
+    const parsed = parseScript(draft);
+    if (!parsed.ok) {
+      setError(parsed.error);
+      return;
+    }
+
+    const script = {
+      id: createScriptId(),
+      name: draftName.trim() || formatScript(parsed.steps),
+      steps: parsed.steps,
+    };
+    onSave(script);
+    setDraft('');
+    setDraftName('');
+    setError('');
+  };
+
+  return (
+    <div className="flex flex-col gap-3">
+      <label className="text-xs font-semibold uppercase tracking-[0.3em] text-muji-accent">
+        Auto Mode Script
+      </label>
+      <div className="flex flex-col gap-3 sm:flex-row sm:items-center">
+        <div className="relative flex-1">
+          <select
+            className="w-full appearance-none rounded-2xl border border-muji-wood/60 bg-white/70 px-4 py-3 text-sm text-muji-ink shadow-soft focus-visible:outline-none focus-visible:ring-2 focus-visible:ring-muji-wood/60 disabled:opacity-60"
+            value={selectedId}
+            onChange={(event) => onSelect(event.target.value)}
+            disabled={disabled}
+          >
+            {scripts.map((script) => (
+              <option key={script.id} value={script.id}>
+                {script.name}
+              </option>
+            ))}
+          </select>
+          <span className="pointer-events-none absolute right-4 top-1/2 -translate-y-1/2 text-muji-ink/60">
+            ▾
+          </span>
+        </div>
+        {isCustom && (
+          <button
+            className="rounded-full border border-muji-wood/60 bg-white/70 px-5 py-2 text-sm font-semibold text-muji-ink shadow-soft transition hover:bg-white focus-visible:outline-none focus-visible:ring-2 focus-visible:ring-muji-wood/60 disabled:cursor-not-allowed disabled:opacity-60"
+            onClick={() => onDelete(selectedId)}
+            type="button"
+            disabled={disabled}
+          >
+            Delete
+          </button>
+        )}
+      </div>
+      {selected && (
+        <p className="text-xs text-muji-ink/60">Steps: {formatScript(selected.steps)}</p>
+      )}
+      <div className="flex flex-col gap-3 sm:flex-row">
+        <input
+          className="flex-1 rounded-2xl border border-muji-wood/50 bg-white/70 px-4 py-3 text-sm text-muji-ink shadow-soft focus-visible:outline-none focus-visible:ring-2 focus-visible:ring-muji-accent/40"
+          placeholder="New script, e.g. EN x2, 2s, ZH, EX"
+          value={draft}
+          onChange={(event) => {
+            setDraft(event.target.value);
+            setError('');
+          }}
+        />
+        <input
+          className="rounded-2xl border border-muji-wood/50 bg-white/70 px-4 py-3 text-sm text-muji-ink shadow-soft focus-visible:outline-none focus-visible:ring-2 focus-visible:ring-muji-accent/40 sm:w-48"
+          placeholder="Name (optional)"
+          value={draftName}
+          onChange={(event) => setDraftName(event.target.value)}
+        />
+        <button
+          className="rounded-full border border-muji-accent/50 bg-muji-accent/10 px-6 py-3 text-sm font-semibold text-muji-ink shadow-soft transition hover:bg-muji-accent/20 focus-visible:outline-none focus-visible:ring-2 focus-visible:ring-muji-accent/40 disabled:cursor-not-allowed disabled:opacity-60"
+          onClick={handleSave}
+          type="button"
+          disabled={!draft.trim()}
+        >
+          Save Preset
+        </button>
+      </div>
+      {error && <p className="text-xs text-rose-700">{error}</p>}
+    </div>
+  );
+}
@@ -0,0 +1,263 @@
+import { useState, type ChangeEvent } from 'react';
+import { createBackup, downloadFile, parseBackup, restoreBackup } from '../backup';
+import {
+  PROFILE_NAME_LIMIT,
+  addProfile,
+  profileFileSlug,
+  removeProfile,
+  renameProfile,
+  type LearnerProfile,
+  type ProfileRegistry,
+} from '../profiles';
+import { toDayKey } from '../srs';
+import { deleteStudyData, openStudyStore, type StudyStore } from '../storage';
+
+type ProfileManagerProps = {
+  registry: ProfileRegistry;
+  onChange: (registry: ProfileRegistry) => void;
+  onSwitch: (id: string) => void;
+};
+
+const inputClassName =
+  'w-full rounded-full border border-muji-wood/60 bg-white/80 px-4 py-2 text-sm text-muji-ink shadow-soft focus-visible:outline-none focus-visible:ring-2 focus-visible:ring-muji-accent/40 sm:w-64';
+
+const smallButtonClassName =
+  'rounded-full border border-muji-wood/60 bg-white/70 px-4 py-2 text-xs font-semibold text-muji-ink transition hover:bg-white focus-visible:outline-none focus-visible:ring-2 focus-visible:ring-muji-wood/60 disabled:cursor-not-allowed disabled:opacity-60';
+
+export default function ProfileManager({ registry, onChange, onSwitch }: ProfileManagerProps) {
+  const [newName, setNewName] = useState('');
+  const [editingId, setEditingId] = useState<string | null>(null);
+  const [editName, setEditName] = useState('');
+  const [confirmDeleteId, setConfirmDeleteId] = useState<string | null>(null);
+  const [message, setMessage] = useState('');
+  const [busy, setBusy] = useState(false);
+
+  const handleAdd = () => {
+    const { registry: next, profile } = addProfile(registry, newName);
+    onChange(next);
+    setNewName('');
+    setMessage(`Added ${profile.name}.`);
+  };
+
+  const handleRename = (id: string) => {
+    onChange(renameProfile(registry, id, editName));
+    setEditingId(null);
+  };
+
+  // Another profile's store is only borrowed; left open, it would block deleting that profile.
+  const handleExport = async (profile: LearnerProfile) => {
+    setBusy(true);
+    let store: StudyStore | null = null;
+    try {
+      store = await openStudyStore(profile.id);
+      const backup = await createBackup(store, { profileName: profile.name });
+      downloadFile(
+        `learn-toeic-${profileFileSlug(profile)}-${toDayKey(backup.exportedAt)}.json`,
+        JSON.stringify(backup),
+        'application/json'
+      );
+      setMessage(`Exported ${profile.name}.`);
+    } catch (error) {
+      setMessage(`Could not export ${profile.name}.`);
+    } finally {
+      store?.close();
+      setBusy(false);
+    }
+  };
+
+  const handleDelete = async (profile: LearnerProfile) => {
+    setBusy(true);
+    try {
+      await deleteStudyData(profile.id);
+      onChange(removeProfile(registry, profile.id));
+      setMessage(`Removed ${profile.name} and their study data.`);
+    } catch (error) {
+      setMessage(`Could not remove ${profile.name}; close other tabs of this app and retry.`);
+    } finally {
+      setConfirmDeleteId(null);
+      setBusy(false);
+    }
+  };
+
+  const handleImport = async (event: ChangeEvent<HTMLInputElement>) => {
+    const file = event.target.files?.[0];
+    event.target.value = '';
+    if (!file) {
+      return;
+    }
+
+    setBusy(true);
+    let store: StudyStore | null = null;
+    try {
+      const result = parseBackup(await file.text());
+      if (!result.ok) {
+        setMessage(result.error);
+        return;
+      }
+
+      const fallbackName = file.name.replace(/\.[^.]+$/, '');
+      const { registry: next, profile } = addProfile(
+        registry,
+        result.backup.profileName ?? fallbackName
+      );
+      store = await openStudyStore(profile.id);
+      await restoreBackup(store, result.backup);
+      onChange(next);
+      setMessage(`Imported ${profile.name} as a new learner.`);
+    } catch (error) {
+      setMessage('Could not import that file as a learner.');
+    } finally {
+      store?.close();
+      setBusy(false);
+    }
+  };
+
+  return (
+    <div className="rounded-3xl border border-muji-wood/50 bg-muji-card p-6 shadow-soft sm:p-10">
+      <div className="space-y-5">
+        <div className="space-y-2">
+          <p className="text-xs font-semibold uppercase tracking-[0.3em] text-muji-accent">
+            Learners
+          </p>
+          <p className="text-sm text-muji-ink/70">
+            Each learner on this device keeps their own settings, voices, review schedules, notes,
+            decks and study history.
+          </p>
+        </div>
+        <ul className="divide-y divide-muji-wood/30 rounded-2xl border border-muji-wood/40 bg-white/60">
+          {registry.profiles.map((profile) => {
+            const active = profile.id === registry.activeId;
+            return (
+              <li
+                key={profile.id}
+                className="flex flex-wrap items-center justify-between gap-3 px-4 py-3 text-sm"
+              >
+                {editingId === profile.id ? (
+                  <form
+                    className="flex flex-wrap items-center gap-2"
+                    onSubmit={(event) => {
+                      event.preventDefault();
+                      handleRename(profile.id);
+                    }}
+                  >
+                    <input
+                      className={inputClassName}
+                      value={editName}
+                      maxLength={PROFILE_NAME_LIMIT}
+                      onChange={(event) => setEditName(event.target.value)}
+                      aria-label="Learner name"
+                      autoFocus
+                    />
+                    <button className={smallButtonClassName} type="submit">
+                      Save
+                    </button>
+                    <button
+                      className={smallButtonClassName}
+                      onClick={() => setEditingId(null)}
+                      type="button"
+                    >
+                      Cancel
+                    </button>
+                  </form>
+                ) : (
+                  <p className="font-semibold text-muji-ink">
+                    {profile.name}
+                    {active && (
+                      <span className="ml-2 rounded-full bg-muji-accent/15 px-2 py-0.5 text-[11px] font-semibold uppercase tracking-[0.2em] text-muji-accent">
+                        Studying now
+                      </span>
+                    )}
+                  </p>
+                )}
+                <div className="flex flex-wrap gap-2">
+                  {!active && (
+                    <button
+                      className={smallButtonClassName}
+                      onClick={() => onSwitch(profile.id)}
+                      type="button"
+                      disabled={busy}
+                    >
+                      Switch
+                    </button>
+                  )}
+                  <button
+                    className={smallButtonClassName}
+                    onClick={() => {
+                      setEditingId(profile.id);
+                      setEditName(profile.name);
+                    }}
+                    type="button"
+                  >
+                    Rename
+                  </button>
+                  <button
+                    className={smallButtonClassName}
+                    onClick={() => handleExport(profile)}
+                    type="button"
+                    disabled={busy}
+                  >
+                    Export
+                  </button>
+                  {!active &&
+                    (confirmDeleteId === profile.id ? (
+                      <button
+                        className="rounded-full border border-rose-300 bg-rose-50 px-4 py-2 text-xs font-semibold text-rose-800 transition hover:bg-rose-100 focus-visible:outline-none focus-visible:ring-2 focus-visible:ring-rose-300 disabled:cursor-not-allowed disabled:opacity-60"
+                        onClick={() => handleDelete(profile)}
+                        type="button"
+                        disabled={busy}
+                      >
+                        Delete all data?
+                      </button>
+                    ) : (
+                      <button
+                        className={smallButtonClassName}
+                        onClick={() => setConfirmDeleteId(profile.id)}
+                        type="button"
+                        disabled={busy}
+                      >
+                        Delete
+                      </button>
+                    ))}
+                </div>
+              </li>
+            );
+          })}
+        </ul>
+        <form
+          className="flex flex-col gap-3 sm:flex-row sm:items-center"
+          onSubmit={(event) => {
+            event.preventDefault();
+            handleAdd();
+          }}
+        >
+          <input
+            className={inputClassName}
+            value={newName}
+            maxLength={PROFILE_NAME_LIMIT}
+            onChange={(event) => setNewName(event.target.value)}
+            placeholder="New learner name"
+            aria-label="New learner name"
+          />
+          <button
+            className="rounded-full bg-muji-accent px-6 py-2 text-sm font-semibold text-white shadow-soft transition hover:bg-muji-accent/90 focus-visible:outline-none focus-visible:ring-2 focus-visible:ring-muji-accent/50 disabled:cursor-not-allowed disabled:opacity-60"
+            type="submit"
+            disabled={busy}
+          >
+            Add Learner
+          </button>
+        </form>
+        <label className="block space-y-2 text-sm text-muji-ink/70">
+          <span>Import a learner from a backup file</span>
+          <input
+            className="block w-full text-sm text-muji-ink file:mr-4 file:rounded-full file:border file:border-muji-wood/60 file:bg-white/70 file:px-5 file:py-2 file:text-sm file:font-semibold file:text-muji-ink"
+            type="file"
+            accept=".json,application/json"
+            onChange={handleImport}
+            disabled={busy}
+          />
+        </label>
+        {message && <p className="text-sm text-muji-ink/70">{message}</p>}
+      </div>
+    </div>
+  );
+}
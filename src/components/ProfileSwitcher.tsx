@@ -0,0 +1,39 @@
+import type { ProfileRegistry } from '../profiles';
+
+type ProfileSwitcherProps = {
+  registry: ProfileRegistry;
+  onSwitch: (id: string) => void;
+  onManage: () => void;
+};
+
+export default function ProfileSwitcher({ registry, onSwitch, onManage }: ProfileSwitcherProps) {
+  return (
+    <div className="flex flex-wrap items-center gap-2">
+      <label
+        className="text-xs font-semibold uppercase tracking-[0.2em] text-muji-ink/60"
+        htmlFor="profile-switcher"
+      >
+        Learner
+      </label>
+      <select
+        id="profile-switcher"
+        className="rounded-full border border-muji-wood/60 bg-white/70 px-4 py-1.5 text-sm font-semibold text-muji-ink shadow-soft focus-visible:outline-none focus-visible:ring-2 focus-visible:ring-muji-accent/40"
+        value={registry.activeId}
+        onChange={(event) => onSwitch(event.target.value)}
+      >
+        {registry.profiles.map((profile) => (
+          <option key={profile.id} value={profile.id}>
+            {profile.name}
+          </option>
+        ))}
+      </select>
+      <button
+        className="text-xs text-muji-ink/60 underline-offset-2 hover:underline"
+        onClick={onManage}
+        type="button"
+      >
+        Manage learners
+      </button>
+    </div>
+  );
+}
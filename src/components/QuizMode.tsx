@@ -0,0 +1,235 @@
+import { useState } from 'react';
+import {
+  answerFor,
+  buildQuizSession,
+  pickQuizTargets,
+  type QuizDirection,
+  type QuizQuestion,
+  type QuizResult,
+} from '../quiz';
+import type { VocabItem } from '../vocab';
+
+type QuizModeProps = {
+  items: VocabItem[];
+  distractorPool: VocabItem[];
+  onAnswer: (item: VocabItem, correct: boolean) => void;
+};
+
+const sessionLengths = [10, 20, 50];
+
+const directionLabels: Record<QuizDirection, string> = {
+  'en-zh': 'English → Chinese',
+  'zh-en': 'Chinese → English',
+};
+
+const optionClassName = (question: QuizQuestion, index: number, choiceIndex: number | null) => {
+  const base =
+    'w-full rounded-2xl border px-4 py-3 text-left text-sm shadow-soft transition focus-visible:outline-none focus-visible:ring-2 focus-visible:ring-muji-accent/40 disabled:cursor-default';
+
+  if (choiceIndex === null) {
+    return `${base} border-muji-wood/60 bg-white/70 text-muji-ink hover:bg-white`;
+  }
+  if (index === question.answerIndex) {
+    return `${base} border-emerald-300 bg-emerald-50 text-emerald-800`;
+  }
+  if (index === choiceIndex) {
+    return `${base} border-rose-300 bg-rose-50 text-rose-800`;
+  }
+  return `${base} border-muji-wood/40 bg-white/50 text-muji-ink/60`;
+};
+
+export default function QuizMode({ items, distractorPool, onAnswer }: QuizModeProps) {
+  const [direction, setDirection] = useState<QuizDirection>('en-zh');
+  const [sessionLength, setSessionLength] = useState(sessionLengths[0]);
+  const [questions, setQuestions] = useState<QuizQuestion[]>([]);
+  const [position, setPosition] = useState(0);
+  const [choiceIndex, setChoiceIndex] = useState<number | null>(null);
+  const [results, setResults] = useState<QuizResult[]>([]);
+  const question = questions[position];
+  const finished = questions.length > 0 && results.length === questions.length && !question;
+  const score = results.filter((result) => result.correct).length;
+  const missed = results.filter((result) => !result.correct);
+
+  const handleStart = () => {
+    const targets = pickQuizTargets(items, sessionLength);
+    setQuestions(buildQuizSession(targets, distractorPool, direction));
+    setPosition(0);
+    setChoiceIndex(null);
+    setResults([]);
+  };
+
+  const handleChoose = (index: number) => {
+    if (!question || choiceIndex !== null) {
+      return;
+    }
+
+    const correct = index === question.answerIndex;
+    setChoiceIndex(index);
+    setResults((prev) => [...prev, { question, choiceIndex: index, correct }]);
+    onAnswer(question.item, correct);
+  };
+
+  const handleContinue = () => {
+    setChoiceIndex(null);
+    setPosition((prev) => prev + 1);
+  };
+
+  const handleReset = () => {
+    setQuestions([]);
+    setPosition(0);
+    setChoiceIndex(null);
+    setResults([]);
+  };
+
+  if (!question && !finished) {
+    return (
+      <div className="rounded-3xl border border-muji-wood/50 bg-muji-card p-6 shadow-soft sm:p-10">
+        <div className="space-y-6">
+          <p className="text-xs font-semibold uppercase tracking-[0.3em] text-muji-accent">
+            Multiple Choice Quiz
+          </p>
+          <div className="flex flex-wrap gap-3">
+            {(Object.keys(directionLabels) as QuizDirection[]).map((value) => (
+              <button
+                key={value}
+                className={`rounded-full border px-5 py-2 text-sm font-semibold shadow-soft transition focus-visible:outline-none focus-visible:ring-2 focus-visible:ring-muji-accent/40 ${
+                  direction === value
+                    ? 'border-muji-accent bg-muji-accent text-white'
+                    : 'border-muji-wood/60 bg-white/70 text-muji-ink hover:bg-white'
+                }`}
+                onClick={() => setDirection(value)}
+                type="button"
+              >
+                {directionLabels[value]}
+              </button>
+            ))}
+          </div>
+          <div className="flex flex-wrap items-center gap-3">
+            <span className="text-xs font-semibold uppercase tracking-[0.2em] text-muji-ink/60">
+              Questions
+            </span>
+            {sessionLengths.map((value) => (
+              <button
+                key={value}
+                className={`rounded-full border px-4 py-2 text-sm font-semibold transition focus-visible:outline-none focus-visible:ring-2 focus-visible:ring-muji-accent/40 ${
+                  sessionLength === value
+                    ? 'border-muji-accent bg-muji-accent/10 text-muji-ink'
+                    : 'border-muji-wood/50 bg-white/60 text-muji-ink/70 hover:bg-white'
+                }`}
+                onClick={() => setSessionLength(value)}
+                type="button"
+              >
+                {value}
+              </button>
+            ))}
+          </div>
+          <button
+            className="rounded-full bg-muji-accent px-6 py-3 text-sm font-semibold text-white shadow-soft transition hover:bg-muji-accent/90 focus-visible:outline-none focus-visible:ring-2 focus-visible:ring-muji-accent/50 disabled:cursor-not-allowed disabled:opacity-60"
+            onClick={handleStart}
+            type="button"
+            disabled={items.length < 2}
+          >
+            Start Quiz
+          </button>
+        </div>
+      </div>
+    );
+  }
+
+  if (finished) {
+    return (
+      <div className="rounded-3xl border border-muji-wood/50 bg-muji-card p-6 shadow-soft sm:p-10">
+        <div className="space-y-6">
+          <div>
+            <p className="text-xs font-semibold uppercase tracking-[0.3em] text-muji-accent">
+              Quiz Complete
+            </p>
+            <p className="mt-3 text-3xl font-semibold text-muji-ink">
+              {score} / {results.length}
+            </p>
+            <p className="mt-1 text-sm text-muji-ink/70">
+              {Math.round((score / results.length) * 100)}% correct
+            </p>
+          </div>
+          {missed.length > 0 && (
+            <div className="space-y-3">
+              <p className="text-xs font-semibold uppercase tracking-[0.2em] text-muji-ink/60">
+                Missed words
+              </p>
+              <ul className="divide-y divide-muji-wood/30 rounded-2xl border border-muji-wood/40 bg-white/60">
+                {missed.map(({ question: missedQuestion, choiceIndex: chosen }) => (
+                  <li key={missedQuestion.item.englishKey} className="px-4 py-3 text-sm">
+                    <p className="font-semibold text-muji-ink">{missedQuestion.item.english}</p>
+                    <p className="text-muji-ink/80">{missedQuestion.item.chinese}</p>
+                    <p className="mt-1 text-xs text-rose-700">
+                      You chose: {missedQuestion.options[chosen]}
+                    </p>
+                  </li>
+                ))}
+              </ul>
+            </div>
+          )}
+          <div className="flex flex-col gap-3 sm:flex-row">
+            <button
+              className="rounded-full bg-muji-accent px-6 py-3 text-sm font-semibold text-white shadow-soft transition hover:bg-muji-accent/90 focus-visible:outline-none focus-visible:ring-2 focus-visible:ring-muji-accent/50"
+              onClick={handleStart}
+              type="button"
+            >
+              New Quiz
+            </button>
+            <button
+              className="rounded-full border border-muji-wood/60 bg-white/70 px-6 py-3 text-sm font-semibold text-muji-ink shadow-soft transition hover:bg-white focus-visible:outline-none focus-visible:ring-2 focus-visible:ring-muji-wood/60"
+              onClick={handleReset}
+              type="button"
+            >
+              Change Settings
+            </button>
+          </div>
+        </div>
+      </div>
+    );
+  }
+
+  return (
+    <div className="rounded-3xl border border-muji-wood/50 bg-muji-card p-6 shadow-soft sm:p-10">
+      <div className="space-y-6">
+        <div className="flex flex-wrap items-center justify-between gap-3">
+          <p className="text-xs font-semibold uppercase tracking-[0.3em] text-muji-accent">
+            Question {position + 1} / {questions.length}
+          </p>
+          <p className="text-sm text-muji-ink/70">Score {score}</p>
+        </div>
+        <p className="text-3xl font-semibold text-muji-ink sm:text-4xl">{question.prompt}</p>
+        <div className="grid gap-3 sm:grid-cols-2">
+          {question.options.map((option, index) => (
+            <button
+              key={option}
+              className={optionClassName(question, index, choiceIndex)}
+              onClick={() => handleChoose(index)}
+              type="button"
+              disabled={choiceIndex !== null}
+            >
+              {option}
+            </button>
+          ))}
+        </div>
+        {choiceIndex !== null && (
+          <div className="flex flex-col gap-3 sm:flex-row sm:items-center sm:justify-between">
+            <p className="text-sm text-muji-ink/80">
+              {choiceIndex === question.answerIndex
+                ? 'Correct!'
+                : `Answer: ${answerFor(question.item, direction)}`}
+            </p>
+            <button
+              className="rounded-full bg-muji-accent px-6 py-3 text-sm font-semibold text-white shadow-soft transition hover:bg-muji-accent/90 focus-visible:outline-none focus-visible:ring-2 focus-visible:ring-muji-accent/50"
+              onClick={handleContinue}
+              type="button"
+            >
+              {position + 1 < questions.length ? 'Next Question' : 'See Results'}
+            </button>
+          </div>
+        )}
+      </div>
+    </div>
+  );
+}
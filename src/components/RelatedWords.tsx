@@ -0,0 +1,54 @@
+import type { VocabItem } from '../vocab';
+
+type RelatedWordsProps = {
+  family: VocabItem[];
+  confusables: VocabItem[];
+  onSelect: (item: VocabItem) => void;
+};
+
+const chipClassName =
+  'rounded-full border border-muji-wood/50 bg-white/70 px-3 py-1 text-xs text-muji-ink transition hover:bg-white focus-visible:outline-none focus-visible:ring-2 focus-visible:ring-muji-wood/60';
+
+function WordChips({
+  label,
+  items,
+  onSelect,
+}: {
+  label: string;
+  items: VocabItem[];
+  onSelect: (item: VocabItem) => void;
+}) {
+  return (
+    <div className="flex flex-wrap items-center gap-2">
+      <span className="text-[11px] font-semibold uppercase tracking-[0.25em] text-muji-accent">
+        {label}
+      </span>
+      {items.map((item) => (
+        <button
+          key={item.englishKey}
+          className={chipClassName}
+          onClick={() => onSelect(item)}
+          type="button"
+          title={item.chinese}
+        >
+          {item.english}
+        </button>
+      ))}
+    </div>
+  );
+}
+
+export default function RelatedWords({ family, confusables, onSelect }: RelatedWordsProps) {
+  if (family.length === 0 && confusables.length === 0) {
+    return null;
+  }
+
+  return (
+    <div className="space-y-2 rounded-2xl border border-muji-wood/40 bg-white/60 px-4 py-3">
+      {family.length > 0 && <WordChips label="Word Family" items={family} onSelect={onSelect} />}
+      {confusables.length > 0 && (
+        <WordChips label="Don't Confuse" items={confusables} onSelect={onSelect} />
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,127 @@
+import { useEffect, useRef, useState } from 'react';
+import {
+  DEFAULT_SHORTCUTS,
+  formatKey,
+  isBindableKey,
+  keyFromEvent,
+  shortcutLabels,
+  type ShortcutAction,
+  type ShortcutBindings,
+} from '../shortcuts';
+
+type ShortcutOverlayProps = {
+  bindings: ShortcutBindings;
+  onRebind: (action: ShortcutAction, key: string) => void;
+  onReset: () => void;
+  onClose: () => void;
+};
+
+export default function ShortcutOverlay({
+  bindings,
+  onRebind,
+  onReset,
+  onClose,
+}: ShortcutOverlayProps) {
+  const [capturing, setCapturing] = useState<ShortcutAction | null>(null);
+  const closeRef = useRef<HTMLButtonElement>(null);
+
+  useEffect(() => {
+    const previous = document.activeElement;
+    closeRef.current?.focus();
+    return () => {
+      if (previous instanceof HTMLElement) {
+        previous.focus();
+      }
+    };
+  }, []);
+
+  useEffect(() => {
+    const handleKeyDown = (event: KeyboardEvent) => {
+      const key = keyFromEvent(event);
+      if (capturing) {
+        event.preventDefault();
+        event.stopPropagation();
+        if (event.key === 'Escape') {
+          setCapturing(null);
+        } else if (key && isBindableKey(key)) {
+          onRebind(capturing, key);
+          setCapturing(null);
+        }
+        return;
+      }
+      if (event.key === 'Escape' || key === bindings['show-shortcuts']) {
+        event.preventDefault();
+        onClose();
+      }
+    };
+
+    window.addEventListener('keydown', handleKeyDown, true);
+    return () => window.removeEventListener('keydown', handleKeyDown, true);
+  }, [capturing, bindings, onRebind, onClose]);
+
+  const customized = (Object.keys(DEFAULT_SHORTCUTS) as ShortcutAction[]).some(
+    (action) => bindings[action] !== DEFAULT_SHORTCUTS[action]
+  );
+
+  return (
+    <div
+      className="fixed inset-0 z-50 flex items-center justify-center bg-muji-ink/30 px-4 py-8"
+      onClick={onClose}
+    >
+      <div
+        className="max-h-full w-full max-w-lg overflow-y-auto rounded-3xl border border-muji-wood/50 bg-muji-card p-6 shadow-soft sm:p-8"
+        role="dialog"
+        aria-modal="true"
+        aria-labelledby="shortcut-overlay-title"
+        onClick={(event) => event.stopPropagation()}
+      >
+        <div className="flex items-center justify-between gap-3">
+          <p
+            id="shortcut-overlay-title"
+            className="text-xs font-semibold uppercase tracking-[0.3em] text-muji-accent"
+          >
+            Keyboard Shortcuts
+          </p>
+          <button
+            ref={closeRef}
+            className="rounded-full border border-muji-wood/60 bg-white/70 px-4 py-1 text-xs font-semibold text-muji-ink transition hover:bg-white focus-visible:outline-none focus-visible:ring-2 focus-visible:ring-muji-wood/60"
+            onClick={onClose}
+            type="button"
+          >
+            Close
+          </button>
+        </div>
+        <p className="mt-2 text-xs text-muji-ink/60">
+          Shortcuts pause while you type in a field. Choose a key to change it; Esc cancels.
+        </p>
+        <ul className="mt-4 divide-y divide-muji-wood/30">
+          {(Object.keys(shortcutLabels) as ShortcutAction[]).map((action) => (
+            <li key={action} className="flex items-center justify-between gap-3 py-2 text-sm">
+              <span className="text-muji-ink/90">{shortcutLabels[action]}</span>
+              <button
+                className={`min-w-[4.5rem] rounded-lg border px-3 py-1 font-mono text-xs font-semibold transition focus-visible:outline-none focus-visible:ring-2 focus-visible:ring-muji-accent/40 ${
+                  capturing === action
+                    ? 'border-muji-accent bg-muji-accent text-white'
+                    : 'border-muji-wood/60 bg-white/80 text-muji-ink hover:bg-white'
+                }`}
+                onClick={() => setCapturing(capturing === action ? null : action)}
+                type="button"
+                aria-label={`Change shortcut for ${shortcutLabels[action]}`}
+              >
+                {capturing === action ? 'Press…' : formatKey(bindings[action])}
+              </button>
+            </li>
+          ))}
+        </ul>
+        <button
+          className="mt-4 rounded-full border border-muji-wood/60 bg-white/70 px-4 py-2 text-xs font-semibold text-muji-ink transition hover:bg-white focus-visible:outline-none focus-visible:ring-2 focus-visible:ring-muji-wood/60 disabled:cursor-not-allowed disabled:opacity-60"
+          onClick={onReset}
+          type="button"
+          disabled={!customized}
+        >
+          Reset to defaults
+        </button>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,22 @@
+import type { SpokenRange } from '../speech';
+
+type SpokenTextProps = {
+  text: string;
+  spoken: SpokenRange | null;
+};
+
+export default function SpokenText({ text, spoken }: SpokenTextProps) {
+  if (!spoken || spoken.text !== text || spoken.end <= spoken.start) {
+    return <>{text}</>;
+  }
+
+  return (
+    <>
+      {text.slice(0, spoken.start)}
+      <mark className="rounded bg-muji-accent/25 text-inherit transition-colors">
+        {text.slice(spoken.start, spoken.end)}
+      </mark>
+      {text.slice(spoken.end)}
+    </>
+  );
+}
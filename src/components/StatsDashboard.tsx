@@ -0,0 +1,218 @@
+import { useEffect, useMemo, useState } from 'react';
+import { buildStudyStats, type DayCount } from '../stats';
+import type { ScheduleMap } from '../srs';
+import type { StudyEvent, StudyStore } from '../storage';
+import type { VocabItem } from '../vocab';
+
+type StatsDashboardProps = {
+  store: StudyStore | null;
+  schedules: ScheduleMap;
+  items: VocabItem[];
+};
+
+const heatLevels = [
+  'bg-muji-wood/20',
+  'bg-muji-accent/30',
+  'bg-muji-accent/50',
+  'bg-muji-accent/70',
+  'bg-muji-accent',
+];
+
+const heatLevel = (count: number, max: number) =>
+  count === 0 ? 0 : Math.min(heatLevels.length - 1, Math.ceil((count / max) * 4));
+
+// Rows run Sunday to Saturday; every other label keeps the column narrow.
+const weekdayLabels = ['', 'Mon', '', 'Wed', '', 'Fri', ''];
+
+const shortDay = (day: string) => day.slice(5).replace('-', '/');
+
+const formatPercent = (correct: number, total: number) =>
+  total === 0 ? '—' : `${Math.round((correct / total) * 100)}%`;
+
+function BarChart({ days, label }: { days: DayCount[]; label: string }) {
+  const max = Math.max(1, ...days.map((day) => day.count));
+  return (
+    <div className="space-y-2">
+      <div className="flex h-32 items-end gap-1" role="img" aria-label={label}>
+        {days.map((day) => (
+          <div
+            key={day.day}
+            className="flex-1 rounded-t bg-muji-accent/70"
+            style={{ height: `${(day.count / max) * 100}%`, minHeight: day.count > 0 ? 2 : 0 }}
+            title={`${day.day}: ${day.count}`}
+          />
+        ))}
+      </div>
+      <div className="flex justify-between text-[11px] text-muji-ink/50">
+        <span>{shortDay(days[0]?.day ?? '')}</span>
+        <span>{shortDay(days[days.length - 1]?.day ?? '')}</span>
+      </div>
+    </div>
+  );
+}
+
+export default function StatsDashboard({ store, schedules, items }: StatsDashboardProps) {
+  const [events, setEvents] = useState<StudyEvent[] | null>(null);
+
+  useEffect(() => {
+    if (!store) {
+      return;
+    }
+
+    let cancelled = false;
+    store
+      .listEvents()
+      .then((history) => {
+        if (!cancelled) {
+          setEvents(history);
+        }
+      })
+      .catch(() => {
+        if (!cancelled) {
+          setEvents([]);
+        }
+      });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [store]);
+
+  const stats = useMemo(
+    () => (events ? buildStudyStats(events, schedules, items) : null),
+    [events, schedules, items]
+  );
+
+  if (!stats) {
+    return (
+      <div className="rounded-3xl border border-muji-wood/50 bg-muji-card p-6 shadow-soft sm:p-10">
+        <p className="text-lg text-muji-ink/70">Loading study history…</p>
+      </div>
+    );
+  }
+
+  const { progress, streak } = stats;
+  const heatMax = Math.max(1, ...stats.activity.map((day) => day.count));
+  const reviewTotal = stats.dailyReviews.reduce((sum, day) => sum + day.count, 0);
+  const forecastTotal = stats.forecast.reduce((sum, day) => sum + day.count, 0);
+  const tiles = [
+    { label: 'Seen', value: progress.seen },
+    { label: 'Learned', value: progress.learned },
+    { label: 'Mature (21d+)', value: progress.mature },
+    { label: 'Current streak', value: `${streak.current}d` },
+  ];
+
+  return (
+    <div className="rounded-3xl border border-muji-wood/50 bg-muji-card p-6 shadow-soft sm:p-10">
+      <div className="space-y-8">
+        <div className="space-y-2">
+          <p className="text-xs font-semibold uppercase tracking-[0.3em] text-muji-accent">
+            Statistics
+          </p>
+          <p className="text-sm text-muji-ink/70">
+            {progress.seen} of {progress.total} words started · longest streak {streak.longest}{' '}
+            days · {streak.activeDays} study days in total
+          </p>
+        </div>
+        <div className="grid gap-3 sm:grid-cols-4">
+          {tiles.map((tile) => (
+            <div
+              key={tile.label}
+              className="rounded-2xl border border-muji-wood/40 bg-white/70 px-4 py-3"
+            >
+              <p className="text-[11px] font-semibold uppercase tracking-[0.2em] text-muji-ink/60">
+                {tile.label}
+              </p>
+              <p className="mt-1 text-2xl font-semibold text-muji-ink">{tile.value}</p>
+            </div>
+          ))}
+        </div>
+        <div className="space-y-3">
+          <p className="text-xs font-semibold uppercase tracking-[0.2em] text-muji-ink/60">
+            Activity (last 20 weeks)
+          </p>
+          <div className="flex gap-2 overflow-x-auto">
+            <div className="grid grid-rows-7 gap-1 text-[10px] leading-3 text-muji-ink/50">
+              {weekdayLabels.map((label, index) => (
+                <span key={index}>{label}</span>
+              ))}
+            </div>
+            <div className="grid grid-flow-col grid-rows-7 gap-1">
+              {stats.activity.map((day) => (
+                <div
+                  key={day.day}
+                  className={`h-3 w-3 rounded-sm ${heatLevels[heatLevel(day.count, heatMax)]}`}
+                  title={`${day.day}: ${day.count} answers`}
+                />
+              ))}
+            </div>
+          </div>
+        </div>
+        <div className="grid gap-6 sm:grid-cols-2">
+          <div className="space-y-3">
+            <p className="text-xs font-semibold uppercase tracking-[0.2em] text-muji-ink/60">
+              Reviews per day · {reviewTotal} in 30 days
+            </p>
+            <BarChart days={stats.dailyReviews} label="Reviews per day over the last 30 days" />
+          </div>
+          <div className="space-y-3">
+            <p className="text-xs font-semibold uppercase tracking-[0.2em] text-muji-ink/60">
+              Due forecast · {forecastTotal} in 14 days
+            </p>
+            <BarChart days={stats.forecast} label="Reviews due over the next 14 days" />
+          </div>
+        </div>
+        <div className="grid gap-6 sm:grid-cols-2">
+          <div className="space-y-3">
+            <p className="text-xs font-semibold uppercase tracking-[0.2em] text-muji-ink/60">
+              Accuracy by part of speech
+            </p>
+            {stats.accuracy.length === 0 ? (
+              <p className="text-sm text-muji-ink/60">Answer some cards to see accuracy.</p>
+            ) : (
+              <ul className="space-y-2">
+                {stats.accuracy.map((entry) => (
+                  <li key={entry.pos} className="space-y-1 text-sm text-muji-ink">
+                    <div className="flex justify-between">
+                      <span>{entry.pos}</span>
+                      <span className="text-muji-ink/70">
+                        {formatPercent(entry.correct, entry.total)} of {entry.total}
+                      </span>
+                    </div>
+                    <div className="h-1.5 rounded-full bg-muji-wood/30">
+                      <div
+                        className="h-1.5 rounded-full bg-muji-accent"
+                        style={{ width: `${(entry.correct / entry.total) * 100}%` }}
+                      />
+                    </div>
+                  </li>
+                ))}
+              </ul>
+            )}
+          </div>
+          <div className="space-y-3">
+            <p className="text-xs font-semibold uppercase tracking-[0.2em] text-muji-ink/60">
+              Hardest words
+            </p>
+            {stats.hardest.length === 0 ? (
+              <p className="text-sm text-muji-ink/60">No lapses yet.</p>
+            ) : (
+              <ol className="space-y-1 text-sm text-muji-ink">
+                {stats.hardest.map(({ item, lapses }) => (
+                  <li key={item.englishKey} className="flex justify-between gap-3">
+                    <span className="truncate">
+                      {item.english} <span className="text-muji-ink/60">{item.chinese}</span>
+                    </span>
+                    <span className="shrink-0 text-muji-ink/70">
+                      {lapses} lapse{lapses === 1 ? '' : 's'}
+                    </span>
+                  </li>
+                ))}
+              </ol>
+            )}
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,46 @@
+import { TOPIC_IDS, TOPIC_RULES, toggleTopic, type TopicId } from '../topics';
+
+type TopicEditorProps = {
+  topics: TopicId[];
+  overridden: boolean;
+  onChange: (topics: TopicId[] | null) => void;
+};
+
+export default function TopicEditor({ topics, overridden, onChange }: TopicEditorProps) {
+  return (
+    <div className="flex flex-wrap items-center gap-2">
+      <span className="text-[11px] font-semibold uppercase tracking-[0.25em] text-muji-accent">
+        Topics
+      </span>
+      {TOPIC_IDS.map((topic) => {
+        const active = topics.includes(topic);
+        return (
+          <button
+            key={topic}
+            className={`rounded-full border px-3 py-1 text-xs transition focus-visible:outline-none focus-visible:ring-2 focus-visible:ring-muji-wood/60 ${
+              active
+                ? 'border-muji-accent bg-muji-accent/15 font-semibold text-muji-ink'
+                : 'border-muji-wood/50 bg-white/60 text-muji-ink/60 hover:bg-white'
+            }`}
+            onClick={() => onChange(toggleTopic(topics, topic))}
+            type="button"
+            aria-pressed={active}
+          >
+            {TOPIC_RULES[topic].label}
+          </button>
+        );
+      })}
+      {overridden ? (
+        <button
+          className="text-xs text-muji-ink/60 underline-offset-2 hover:underline"
+          onClick={() => onChange(null)}
+          type="button"
+        >
+          Use automatic topics
+        </button>
+      ) : (
+        <span className="text-xs text-muji-ink/50">Automatic</span>
+      )}
+    </div>
+  );
+}
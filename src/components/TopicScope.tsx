@@ -0,0 +1,58 @@
+import { TOPIC_RULES, type TopicId, type TopicProgress } from '../topics';
+
+type TopicScopeProps = {
+  progress: TopicProgress[];
+  selected: TopicId[];
+  scopedCount: number;
+  onToggle: (topic: TopicId) => void;
+  onClear: () => void;
+};
+
+const chipClassName = (active: boolean) =>
+  `rounded-full border px-4 py-1 text-xs font-semibold transition focus-visible:outline-none focus-visible:ring-2 focus-visible:ring-muji-wood/60 ${
+    active
+      ? 'border-muji-accent bg-muji-accent/15 text-muji-ink'
+      : 'border-muji-wood/50 bg-white/60 text-muji-ink/70 hover:bg-white'
+  }`;
+
+export default function TopicScope({
+  progress,
+  selected,
+  scopedCount,
+  onToggle,
+  onClear,
+}: TopicScopeProps) {
+  return (
+    <div className="flex flex-wrap items-center gap-2 pt-1">
+      <span className="text-xs font-semibold uppercase tracking-[0.2em] text-muji-ink/60">
+        Topics
+      </span>
+      <button
+        className={chipClassName(selected.length === 0)}
+        onClick={onClear}
+        type="button"
+        aria-pressed={selected.length === 0}
+      >
+        All words
+      </button>
+      {progress.map((entry) => (
+        <button
+          key={entry.topic}
+          className={chipClassName(selected.includes(entry.topic))}
+          onClick={() => onToggle(entry.topic)}
+          type="button"
+          aria-pressed={selected.includes(entry.topic)}
+          title={`${entry.seen} seen · ${entry.learned} learned of ${entry.total}`}
+        >
+          {TOPIC_RULES[entry.topic].label}
+          <span className="ml-2 font-normal text-muji-ink/60">
+            {entry.learned}/{entry.total}
+          </span>
+        </button>
+      ))}
+      {selected.length > 0 && (
+        <span className="text-xs text-muji-ink/60">{scopedCount} words in scope</span>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,224 @@
+import { useEffect, useRef, useState, type FormEvent } from 'react';
+import { shuffle } from '../random';
+import { gradeSpelling, type DiffOp, type SpellingResult } from '../spelling';
+import type { VocabItem } from '../vocab';
+
+export type TypingVariant = 'spelling' | 'dictation';
+
+type TypingModeProps = {
+  variant: TypingVariant;
+  items: VocabItem[];
+  speechSupported: boolean;
+  onSpeak: (item: VocabItem, options?: { slow?: boolean }) => void;
+  onStopSpeaking: () => void;
+  knownWords: ReadonlySet<string>;
+  onAnswer: (item: VocabItem, correct: boolean) => void;
+};
+
+const variantTitles: Record<TypingVariant, string> = {
+  spelling: 'Spell the English word',
+  dictation: 'Type what you hear',
+};
+
+const verdictLabels: Record<SpellingResult['verdict'], string> = {
+  exact: 'Correct!',
+  typo: 'Close — counted as a typo.',
+  wrong: 'Not quite.',
+};
+
+const pickWord = (items: VocabItem[], excludeKey?: string) =>
+  shuffle(items).find((item) => item.englishKey !== excludeKey) ?? items[0];
+
+const renderDiffOp = (op: DiffOp, index: number) => {
+  if (op.type === 'match') {
+    return (
+      <span key={index} className="text-muji-ink">
+        {op.char}
+      </span>
+    );
+  }
+  if (op.type === 'substitute') {
+    return (
+      <span
+        key={index}
+        className="rounded bg-rose-100 px-0.5 text-rose-700"
+        title={`You typed "${op.actual}"`}
+      >
+        {op.expected}
+      </span>
+    );
+  }
+  if (op.type === 'missing') {
+    return (
+      <span
+        key={index}
+        className="rounded bg-amber-100 px-0.5 text-amber-700 underline"
+        title="Missing letter"
+      >
+        {op.expected}
+      </span>
+    );
+  }
+  return (
+    <span key={index} className="px-0.5 text-muji-ink/40 line-through" title="Extra letter">
+      {op.actual}
+    </span>
+  );
+};
+
+export default function TypingMode({
+  variant,
+  items,
+  speechSupported,
+  onSpeak,
+  onStopSpeaking,
+  knownWords,
+  onAnswer,
+}: TypingModeProps) {
+  const [item, setItem] = useState<VocabItem | undefined>(() => pickWord(items));
+  const [answer, setAnswer] = useState('');
+  const [result, setResult] = useState<SpellingResult | null>(null);
+  const [autoSpeak, setAutoSpeak] = useState(false);
+  const [tally, setTally] = useState({ correct: 0, total: 0 });
+  const inputRef = useRef<HTMLInputElement>(null);
+  const listening = variant === 'dictation';
+
+  useEffect(() => {
+    if (item && (listening || autoSpeak) && speechSupported) {
+      onSpeak(item);
+    }
+    inputRef.current?.focus();
+    // Only re-run when a new word is shown.
+  }, [item]);
+
+  // Leaving the mode mid-word should not keep reading aloud.
+  useEffect(() => onStopSpeaking, []);
+
+  const handleSubmit = (event: FormEvent<HTMLFormElement>) => {
+    event.preventDefault();
+    if (!item) {
+      return;
+    }
+
+    if (result) {
+      setItem(pickWord(items, item.englishKey));
+      setAnswer('');
+      setResult(null);
+      return;
+    }
+
+    if (!answer.trim()) {
+      return;
+    }
+
+    const graded = gradeSpelling(answer, item.englishKey, knownWords);
+    const correct = graded.verdict !== 'wrong';
+    setResult(graded);
+    setTally((prev) => ({ correct: prev.correct + (correct ? 1 : 0), total: prev.total + 1 }));
+    onAnswer(item, correct);
+  };
+
+  if (!item) {
+    return (
+      <div className="rounded-3xl border border-muji-wood/50 bg-muji-card p-6 shadow-soft sm:p-10">
+        <p className="text-lg text-muji-ink/70">No words available for spelling practice.</p>
+      </div>
+    );
+  }
+
+  return (
+    <div className="rounded-3xl border border-muji-wood/50 bg-muji-card p-6 shadow-soft sm:p-10">
+      <form className="space-y-6" onSubmit={handleSubmit}>
+        <div className="flex flex-wrap items-center justify-between gap-3">
+          <p className="text-xs font-semibold uppercase tracking-[0.3em] text-muji-accent">
+            {variantTitles[variant]}
+          </p>
+          <p className="text-sm text-muji-ink/70">
+            {tally.correct} / {tally.total} correct
+          </p>
+        </div>
+        {listening && !result ? (
+          <div className="rounded-2xl border border-dashed border-muji-wood/60 bg-white/40 px-4 py-6 text-center">
+            <p className="text-sm text-muji-ink/60">
+              {speechSupported
+                ? 'Listen carefully — the card stays hidden until you answer.'
+                : 'Speech synthesis is not available, so dictation cannot play audio.'}
+            </p>
+          </div>
+        ) : (
+          <div>
+            <p className="text-2xl text-muji-ink sm:text-3xl">{item.chinese}</p>
+            {item.pos && <p className="mt-2 text-sm text-muji-ink/60">{item.pos}</p>}
+          </div>
+        )}
+        <input
+          ref={inputRef}
+          className="w-full rounded-2xl border border-muji-wood/50 bg-white/70 px-4 py-3 text-lg text-muji-ink shadow-soft focus-visible:outline-none focus-visible:ring-2 focus-visible:ring-muji-accent/40"
+          placeholder={listening ? 'Type what you heard' : 'Type the English word'}
+          value={answer}
+          onChange={(event) => setAnswer(event.target.value)}
+          readOnly={Boolean(result)}
+          autoCapitalize="off"
+          autoComplete="off"
+          autoCorrect="off"
+          spellCheck={false}
+        />
+        {result && (
+          <div className="rounded-2xl border border-muji-wood/40 bg-white/70 px-4 py-3">
+            <p
+              className={`text-sm font-semibold ${
+                result.verdict === 'wrong' ? 'text-rose-700' : 'text-emerald-700'
+              }`}
+            >
+              {result.otherWord
+                ? `“${result.actual}” is a different word.`
+                : verdictLabels[result.verdict]}
+            </p>
+            {result.verdict !== 'exact' && (
+              <p className="mt-2 font-mono text-lg tracking-wide">{result.diff.map(renderDiffOp)}</p>
+            )}
+            <p className="mt-2 text-sm text-muji-ink/70">{item.english}</p>
+          </div>
+        )}
+        <div className="flex flex-col gap-3 sm:flex-row sm:items-center">
+          <button
+            className="rounded-full bg-muji-accent px-6 py-3 text-sm font-semibold text-white shadow-soft transition hover:bg-muji-accent/90 focus-visible:outline-none focus-visible:ring-2 focus-visible:ring-muji-accent/50 disabled:cursor-not-allowed disabled:opacity-60"
+            type="submit"
+            disabled={!result && !answer.trim()}
+          >
+            {result ? 'Next Word' : 'Check'}
+          </button>
+          <button
+            className="rounded-full border border-muji-wood/60 bg-white/70 px-6 py-3 text-sm font-semibold text-muji-ink shadow-soft transition hover:bg-white focus-visible:outline-none focus-visible:ring-2 focus-visible:ring-muji-wood/60 disabled:cursor-not-allowed disabled:opacity-60"
+            onClick={() => onSpeak(item)}
+            type="button"
+            disabled={!speechSupported}
+          >
+            {listening ? 'Replay' : 'Play English'}
+          </button>
+          {listening ? (
+            <button
+              className="rounded-full border border-muji-wood/60 bg-white/70 px-6 py-3 text-sm font-semibold text-muji-ink shadow-soft transition hover:bg-white focus-visible:outline-none focus-visible:ring-2 focus-visible:ring-muji-wood/60 disabled:cursor-not-allowed disabled:opacity-60"
+              onClick={() => onSpeak(item, { slow: true })}
+              type="button"
+              disabled={!speechSupported}
+            >
+              Replay Slowly
+            </button>
+          ) : (
+            <label className="flex items-center gap-2 text-sm text-muji-ink/70">
+              <input
+                className="accent-muji-accent"
+                type="checkbox"
+                checked={autoSpeak}
+                onChange={(event) => setAutoSpeak(event.target.checked)}
+                disabled={!speechSupported}
+              />
+              Play audio automatically
+            </label>
+          )}
+        </div>
+      </form>
+    </div>
+  );
+}
@@ -0,0 +1,214 @@
+import { useDeferredValue, useMemo, useState, type UIEvent } from 'react';
+import {
+  collectTags,
+  matchesAnnotationFilter,
+  type AnnotationFilter,
+  type AnnotationMap,
+} from '../annotations';
+import { isFlagged } from '../corrections';
+import type { ScheduleMap } from '../srs';
+import type { VocabItem } from '../vocab';
+import AnnotationFilterSelect from './AnnotationFilterSelect';
+
+type WordListProps = {
+  items: VocabItem[];
+  schedules: ScheduleMap;
+  annotations: AnnotationMap;
+  onSelect: (item: VocabItem) => void;
+};
+
+type SortOrder = 'source' | 'alpha' | 'alpha-desc' | 'due' | 'lapses';
+
+type StatusFilter = 'all' | 'ok' | 'flagged';
+
+const ROW_HEIGHT = 72;
+const VIEWPORT_HEIGHT = 560;
+const OVERSCAN = 6;
+
+const sortLabels: Record<SortOrder, string> = {
+  source: 'List order',
+  alpha: 'A → Z',
+  'alpha-desc': 'Z → A',
+  due: 'Due soonest',
+  lapses: 'Most lapses',
+};
+
+const statusLabels: Record<StatusFilter, string> = {
+  all: 'Any status',
+  ok: 'OK only',
+  flagged: 'Possible errors',
+};
+
+const matchesQuery = (item: VocabItem, query: string) =>
+  !query ||
+  item.english.toLowerCase().includes(query) ||
+  item.chinese.includes(query) ||
+  item.ecdictZh.includes(query);
+
+const matchesStatus = (item: VocabItem, status: StatusFilter) => {
+  if (status === 'all') {
+    return true;
+  }
+  const flagged = isFlagged(item);
+  return status === 'flagged' ? flagged : !flagged;
+};
+
+const sortItems = (items: VocabItem[], order: SortOrder, schedules: ScheduleMap) => {
+  if (order === 'source') {
+    return items;
+  }
+
+  const sorted = [...items];
+  if (order === 'alpha' || order === 'alpha-desc') {
+    const direction = order === 'alpha' ? 1 : -1;
+    return sorted.sort(
+      (a, b) => direction * a.englishKey.localeCompare(b.englishKey, 'en', { sensitivity: 'base' })
+    );
+  }
+  if (order === 'due') {
+    const dueOf = (item: VocabItem) => schedules[item.englishKey]?.due ?? Number.POSITIVE_INFINITY;
+    return sorted.sort((a, b) => dueOf(a) - dueOf(b));
+  }
+  const lapsesOf = (item: VocabItem) => schedules[item.englishKey]?.lapses ?? 0;
+  return sorted.sort((a, b) => lapsesOf(b) - lapsesOf(a));
+};
+
+export default function WordList({ items, schedules, annotations, onSelect }: WordListProps) {
+  const [query, setQuery] = useState('');
+  const [pos, setPos] = useState('');
+  const [status, setStatus] = useState<StatusFilter>('all');
+  const [order, setOrder] = useState<SortOrder>('source');
+  const [annotationFilter, setAnnotationFilter] = useState<AnnotationFilter>('all');
+  const [scrollTop, setScrollTop] = useState(0);
+  const deferredQuery = useDeferredValue(query.trim().toLowerCase());
+
+  const posOptions = useMemo(
+    () => Array.from(new Set(items.map((item) => item.pos).filter(Boolean))).sort(),
+    [items]
+  );
+  const tags = useMemo(() => collectTags(annotations), [annotations]);
+
+  const visibleItems = useMemo(() => {
+    const filtered = items.filter(
+      (item) =>
+        (!pos || item.pos === pos) &&
+        matchesStatus(item, status) &&
+        matchesAnnotationFilter(annotations[item.englishKey], annotationFilter) &&
+        matchesQuery(item, deferredQuery)
+    );
+    return sortItems(filtered, order, schedules);
+  }, [items, pos, status, annotationFilter, annotations, deferredQuery, order, schedules]);
+
+  const firstRow = Math.max(0, Math.floor(scrollTop / ROW_HEIGHT) - OVERSCAN);
+  const lastRow = Math.min(
+    visibleItems.length,
+    Math.ceil((scrollTop + VIEWPORT_HEIGHT) / ROW_HEIGHT) + OVERSCAN
+  );
+  const rows = visibleItems.slice(firstRow, lastRow);
+
+  const handleScroll = (event: UIEvent<HTMLDivElement>) => {
+    setScrollTop(event.currentTarget.scrollTop);
+  };
+
+  return (
+    <div className="rounded-3xl border border-muji-wood/50 bg-muji-card p-6 shadow-soft sm:p-10">
+      <div className="space-y-4">
+        <div className="flex flex-wrap items-center justify-between gap-3">
+          <p className="text-xs font-semibold uppercase tracking-[0.3em] text-muji-accent">
+            Word List
+          </p>
+          <p className="text-sm text-muji-ink/70">
+            {visibleItems.length} / {items.length} words
+          </p>
+        </div>
+        <input
+          className="w-full rounded-2xl border border-muji-wood/50 bg-white/70 px-4 py-3 text-sm text-muji-ink shadow-soft focus-visible:outline-none focus-visible:ring-2 focus-visible:ring-muji-accent/40"
+          placeholder="Search English, Chinese or dictionary text"
+          value={query}
+          onChange={(event) => setQuery(event.target.value)}
+        />
+        <div className="grid gap-3 sm:grid-cols-2 lg:grid-cols-4">
+          <select
+            className="rounded-2xl border border-muji-wood/60 bg-white/70 px-4 py-2 text-sm text-muji-ink shadow-soft focus-visible:outline-none focus-visible:ring-2 focus-visible:ring-muji-wood/60"
+            value={pos}
+            onChange={(event) => setPos(event.target.value)}
+          >
+            <option value="">Any part of speech</option>
+            {posOptions.map((value) => (
+              <option key={value} value={value}>
+                {value}
+              </option>
+            ))}
+          </select>
+          <select
+            className="rounded-2xl border border-muji-wood/60 bg-white/70 px-4 py-2 text-sm text-muji-ink shadow-soft focus-visible:outline-none focus-visible:ring-2 focus-visible:ring-muji-wood/60"
+            value={status}
+            onChange={(event) => setStatus(event.target.value as StatusFilter)}
+          >
+            {(Object.keys(statusLabels) as StatusFilter[]).map((value) => (
+              <option key={value} value={value}>
+                {statusLabels[value]}
+              </option>
+            ))}
+          </select>
+          <select
+            className="rounded-2xl border border-muji-wood/60 bg-white/70 px-4 py-2 text-sm text-muji-ink shadow-soft focus-visible:outline-none focus-visible:ring-2 focus-visible:ring-muji-wood/60"
+            value={order}
+            onChange={(event) => setOrder(event.target.value as SortOrder)}
+          >
+            {(Object.keys(sortLabels) as SortOrder[]).map((value) => (
+              <option key={value} value={value}>
+                {sortLabels[value]}
+              </option>
+            ))}
+          </select>
+          <AnnotationFilterSelect
+            value={annotationFilter}
+            tags={tags}
+            onChange={setAnnotationFilter}
+          />
+        </div>
+        <div
+          className="overflow-y-auto rounded-2xl border border-muji-wood/40 bg-white/60"
+          style={{ height: VIEWPORT_HEIGHT }}
+          onScroll={handleScroll}
+        >
+          {visibleItems.length === 0 ? (
+            <p className="px-4 py-6 text-sm text-muji-ink/60">No words match these filters.</p>
+          ) : (
+            <ul className="relative" style={{ height: visibleItems.length * ROW_HEIGHT }}>
+              {rows.map((item, offset) => (
+                <li
+                  key={item.englishKey}
+                  className="absolute inset-x-0 border-b border-muji-wood/20"
+                  style={{ top: (firstRow + offset) * ROW_HEIGHT, height: ROW_HEIGHT }}
+                >
+                  <button
+                    className="flex h-full w-full flex-col justify-center px-4 text-left transition hover:bg-muji-paper focus-visible:outline-none focus-visible:ring-2 focus-visible:ring-inset focus-visible:ring-muji-accent/40"
+                    onClick={() => onSelect(item)}
+                    type="button"
+                  >
+                    <span className="flex items-center gap-2 text-sm font-semibold text-muji-ink">
+                      {annotations[item.englishKey]?.starred && (
+                        <span className="text-amber-500" aria-label="Starred">
+                          ★
+                        </span>
+                      )}
+                      {item.english}
+                      {isFlagged(item) && (
+                        <span className="rounded-full bg-amber-100 px-2 text-[10px] font-semibold uppercase tracking-[0.2em] text-amber-700">
+                          Flagged
+                        </span>
+                      )}
+                    </span>
+                    <span className="truncate text-sm text-muji-ink/70">{item.chinese}</span>
+                  </button>
+                </li>
+              ))}
+            </ul>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+}
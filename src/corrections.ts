@@ -0,0 +1,44 @@
+import type { VocabItem } from './vocab';
+
+export type CorrectionDecision = 'accepted' | 'edited' | 'rejected';
+
+export type Correction = {
+  decision: CorrectionDecision;
+  chinese: string;
+  original: string;
+  decidedAt: number;
+};
+
+export type CorrectionMap = Record<string, Correction>;
+
+export const FLAGGED_STATUS = 'Possible error';
+export const CORRECTED_STATUS = 'Corrected';
+
+export const isFlagged = (item: VocabItem) => item.checkStatus === FLAGGED_STATUS;
+
+export const createCorrection = (
+  item: VocabItem,
+  decision: CorrectionDecision,
+  chinese: string,
+  now = Date.now()
+): Correction => ({
+  decision,
+  chinese: decision === 'rejected' ? item.chinese : chinese.trim(),
+  original: item.chinese,
+  decidedAt: now,
+});
+
+export const isStaleCorrection = (item: VocabItem, correction: Correction) =>
+  correction.original !== item.chinese;
+
+export const applyCorrections = (items: VocabItem[], corrections: CorrectionMap) =>
+  items.map((item) => {
+    const correction = corrections[item.englishKey];
+    if (!correction) {
+      return item;
+    }
+    if (correction.decision === 'rejected') {
+      return { ...item, checkStatus: 'OK' };
+    }
+    return { ...item, chinese: correction.chinese, checkStatus: CORRECTED_STATUS };
+  });
@@ -0,0 +1,103 @@
+import { readFileSync } from 'node:fs';
+import { describe, expect, it } from 'vitest';
+import { parseCsv } from './csv';
+
+// Rows copied verbatim from toeic_vocab_ecdict.csv.
+const HEADER =
+  'English,Chinese Meanings,pos,word_with_pos,check_status,suggested_zh,notes,ecdict_zh,ecdict_pos';
+const ATM_ROW =
+  'ATM,自動存提款機(=AutomticTellerMchie),n.,ATM (n.),Possible error,自動存提款機(=),English letters present in Chinese meaning,[计] 自动出纳机; 异步传输方式,';
+const EARTH_ROW =
+  'Earth,地球,n.,Earth (n.),OK,,,"n. 地球, 泥土, 世界, 尘世\\nvt. 埋入土中, 赶入洞内\\nvi. 躲入洞内",';
+const ARMED_ROW =
+  'armed,武裝的,adj.,armed (adj.),OK,,,"a. 有扶手的, 武装的, 有防卫器官的\\n[法] 武装的, 持械的, ""F带武器的",';
+const MORE_ROW =
+  'more,更加；更多,n.,more (n.),OK,,,"n. 更多\\na. 多的, 程度较大的, 更大的\\nadv. 多, 更多, 进一步\\n[计] DOS外部命令:显示满屏后自动暂停, 并显示:""--More--"", 按任意键继续",';
+
+const fieldsOf = (text: string) => parseCsv(text).rows.map((row) => row.fields);
+
+describe('parseCsv', () => {
+  it('keeps the ECDICT \\n escape sequence as literal text inside a quoted field', () => {
+    const [row] = fieldsOf(EARTH_ROW);
+    expect(row).toHaveLength(9);
+    expect(row[7]).toBe('n. 地球, 泥土, 世界, 尘世\\nvt. 埋入土中, 赶入洞内\\nvi. 躲入洞内');
+    expect(row[8]).toBe('');
+  });
+
+  it('reads real newlines inside a quoted ECDICT field as part of the field', () => {
+    const multiline = EARTH_ROW.replace(/\\n/g, '\n');
+    const { rows, errors } = parseCsv(`${HEADER}\n${multiline}\n${ATM_ROW}\n`);
+    expect(errors).toEqual([]);
+    expect(rows.map((row) => row.line)).toEqual([1, 2, 5]);
+    expect(rows[1].fields[7]).toBe('n. 地球, 泥土, 世界, 尘世\nvt. 埋入土中, 赶入洞内\nvi. 躲入洞内');
+    expect(rows[2].fields[0]).toBe('ATM');
+  });
+
+  it('unescapes doubled quotes', () => {
+    expect(fieldsOf(ARMED_ROW)[0][7]).toBe(
+      'a. 有扶手的, 武装的, 有防卫器官的\\n[法] 武装的, 持械的, "F带武器的'
+    );
+    expect(fieldsOf(MORE_ROW)[0][7]).toContain('并显示:"--More--", 按任意键继续');
+  });
+
+  it('strips a leading byte order mark', () => {
+    const [header] = fieldsOf(`\uFEFF${HEADER}\r\n${ATM_ROW}\r\n`);
+    expect(header[0]).toBe('English');
+    expect(header).toHaveLength(9);
+  });
+
+  it('accepts mixed CRLF, LF and CR line endings', () => {
+    const { rows, errors } = parseCsv(`${HEADER}\r\n${ATM_ROW}\n${EARTH_ROW}\r${ARMED_ROW}`);
+    expect(errors).toEqual([]);
+    expect(rows.map((row) => row.fields[0])).toEqual(['English', 'ATM', 'Earth', 'armed']);
+    expect(rows.map((row) => row.line)).toEqual([1, 2, 3, 4]);
+    expect(rows.every((row) => row.fields.length === 9)).toBe(true);
+  });
+
+  it('counts a CRLF inside quotes as one line break', () => {
+    const multiline = MORE_ROW.replace(/\\n/g, '\r\n');
+    const { rows } = parseCsv(`${multiline}\r\n${ATM_ROW}`);
+    expect(rows[0].fields[7].split('\n')).toHaveLength(4);
+    expect(rows[1].line).toBe(5);
+  });
+
+  it('reports an unterminated quote at end of file on the line where it opened', () => {
+    const truncated = ARMED_ROW.slice(0, ARMED_ROW.lastIndexOf('"'));
+    const { rows, errors } = parseCsv(`${HEADER}\n${ATM_ROW}\n${truncated}`);
+    expect(errors).toEqual([{ line: 3, message: 'Quoted field is never closed' }]);
+    expect(rows.map((row) => row.line)).toEqual([1, 2, 3]);
+    expect(rows[2].fields[7]).toContain('持械的, "F带武器的');
+  });
+
+  it('reports the exact line of stray quotes after earlier multi-line fields', () => {
+    const multiline = EARTH_ROW.replace(/\\n/g, '\n');
+    const stray = 'CEO"s office,總裁,phr.';
+    const trailing = 'English,"n. 英语" a. 英文的';
+    const { errors } = parseCsv(`${HEADER}\n${multiline}\n${stray}\n${trailing}`, {
+      startLine: 10,
+    });
+    expect(errors).toEqual([
+      { line: 14, message: 'Unexpected quote inside an unquoted field' },
+      { line: 15, message: 'Unexpected text after a closing quote' },
+    ]);
+  });
+
+  it('keeps whitespace around unquoted fields as written', () => {
+    const [row] = fieldsOf(' ATM , 自動存提款機 ,n.,"  quoted  " ');
+    expect(row).toEqual([' ATM ', ' 自動存提款機 ', 'n.', '  quoted  ']);
+  });
+
+  it('skips blank lines without shifting later line numbers', () => {
+    const { rows } = parseCsv(`${HEADER}\n\n${ATM_ROW}\r\n\r\n${EARTH_ROW}\n`);
+    expect(rows.map((row) => row.line)).toEqual([1, 3, 5]);
+  });
+
+  it('parses the whole bundled word list without errors', () => {
+    const raw = readFileSync(new URL('../toeic_vocab_ecdict.csv', import.meta.url), 'utf8');
+    const { rows, errors } = parseCsv(raw);
+    expect(errors).toEqual([]);
+    expect(rows).toHaveLength(3803);
+    expect(rows.every((row) => row.fields.length === 9)).toBe(true);
+    expect(rows.find((row) => row.fields[0] === 'more')?.line).toBe(2421);
+  });
+});
@@ -0,0 +1,134 @@
+export type CsvRow = {
+  line: number;
+  fields: string[];
+};
+
+export type CsvError = {
+  line: number;
+  message: string;
+};
+
+export type CsvParseResult = {
+  rows: CsvRow[];
+  errors: CsvError[];
+};
+
+export type CsvOptions = {
+  delimiter?: string;
+  startLine?: number;
+};
+
+const isBlankRow = (fields: string[]) => fields.length === 1 && fields[0].trim() === '';
+
+export const parseCsv = (
+  text: string,
+  { delimiter = ',', startLine = 1 }: CsvOptions = {}
+): CsvParseResult => {
+  const source = text.charCodeAt(0) === 0xfeff ? text.slice(1) : text;
+  const rows: CsvRow[] = [];
+  const errors: CsvError[] = [];
+
+  let fields: string[] = [];
+  let field = '';
+  let quoted = false;
+  let inQuotes = false;
+  let afterQuote = false;
+  let trailing = '';
+  let line = startLine;
+  let rowLine = startLine;
+  let quoteLine = startLine;
+
+  // Unquoted whitespace is data under RFC 4180; trimming belongs to whoever maps the fields.
+  const endField = () => {
+    fields.push(field);
+    field = '';
+    quoted = false;
+    afterQuote = false;
+    trailing = '';
+  };
+
+  const endRow = () => {
+    endField();
+    if (!isBlankRow(fields)) {
+      rows.push({ line: rowLine, fields });
+    }
+    fields = [];
+  };
+
+  for (let index = 0; index < source.length; index += 1) {
+    const char = source[index];
+
+    if (inQuotes) {
+      if (char === '"') {
+        if (source[index + 1] === '"') {
+          field += '"';
+          index += 1;
+        } else {
+          inQuotes = false;
+          afterQuote = true;
+        }
+        continue;
+      }
+      if (char === '\r' || char === '\n') {
+        if (char === '\r' && source[index + 1] === '\n') {
+          index += 1;
+        }
+        field += '\n';
+        line += 1;
+        continue;
+      }
+      field += char;
+      continue;
+    }
+
+    if (char === delimiter) {
+      endField();
+      continue;
+    }
+
+    if (char === '\r' || char === '\n') {
+      if (char === '\r' && source[index + 1] === '\n') {
+        index += 1;
+      }
+      endRow();
+      line += 1;
+      rowLine = line;
+      continue;
+    }
+
+    if (char === '"') {
+      if (!quoted && field.trim() === '') {
+        field = '';
+        quoted = true;
+        inQuotes = true;
+        quoteLine = line;
+        continue;
+      }
+      errors.push({ line, message: 'Unexpected quote inside an unquoted field' });
+      field += char;
+      continue;
+    }
+
+    if (afterQuote) {
+      if (char.trim() === '') {
+        trailing += char;
+        continue;
+      }
+      errors.push({ line, message: 'Unexpected text after a closing quote' });
+      field += trailing;
+      afterQuote = false;
+    }
+
+    field += char;
+  }
+
+  if (inQuotes) {
+    errors.push({ line: quoteLine, message: 'Quoted field is never closed' });
+  }
+
+  if (fields.length > 0 || field !== '' || quoted) {
+    endRow();
+  }
+
+  return { rows, errors };
+};
@@ -0,0 +1,168 @@
+import { parseCsv } from './csv';
+import {
+  extractPosTag,
+  parseVocabWithReport,
+  type ParseIssue,
+  type ParseReport,
+  type VocabItem,
+} from './vocab';
+
+export type DeckFormat = 'bundled' | 'csv' | 'tsv' | 'anki';
+
+export type Deck = {
+  id: string;
+  name: string;
+  format: DeckFormat;
+  items: VocabItem[];
+  importedAt: number;
+};
+
+export type DeckImport = {
+  deck: Deck;
+  issues: ParseIssue[];
+};
+
+export const BUNDLED_DECK_ID = 'bundled';
+
+const ankiSeparators: Record<string, string> = {
+  tab: '\t',
+  comma: ',',
+  semicolon: ';',
+  space: ' ',
+  pipe: '|',
+  colon: ':',
+};
+
+const htmlEntities: Record<string, string> = {
+  '&nbsp;': ' ',
+  '&amp;': '&',
+  '&lt;': '<',
+  '&gt;': '>',
+  '&quot;': '"',
+  '&#39;': "'",
+};
+
+const stripHtml = (value: string) =>
+  value
+    .replace(/<br\s*\/?>/gi, '; ')
+    .replace(/<[^>]+>/g, '')
+    .replace(/&(nbsp|amp|lt|gt|quot|#39);/g, (entity) => htmlEntities[entity] ?? entity)
+    .trim();
+
+type ImportFormat = Exclude<DeckFormat, 'bundled'>;
+
+export const detectDeckFormat = (fileName: string, text: string): ImportFormat => {
+  const lowerName = fileName.toLowerCase();
+  const firstLine = text.split(/\r?\n/, 1)[0] ?? '';
+
+  if (/^#(separator|html|columns|notetype|deck|tags)/m.test(text) || lowerName.endsWith('.txt')) {
+    return 'anki';
+  }
+  if (lowerName.endsWith('.tsv') || (firstLine.includes('\t') && !firstLine.includes(','))) {
+    return 'tsv';
+  }
+  return 'csv';
+};
+
+export const parseAnkiExport = (text: string): ParseReport => {
+  let separator = '\t';
+  let html = true;
+  const skippedColumns = new Set<number>();
+  const items: VocabItem[] = [];
+  const issues: ParseIssue[] = [];
+
+  const lines = text.split(/\r\n|\r|\n/);
+  let bodyStart = 0;
+
+  while (bodyStart < lines.length && lines[bodyStart].startsWith('#')) {
+    const [directive, value = ''] = lines[bodyStart].slice(1).split(':');
+    if (directive === 'separator') {
+      separator = ankiSeparators[value.trim().toLowerCase()] ?? value;
+    } else if (directive === 'html') {
+      html = value.trim() === 'true';
+    } else if (directive.endsWith(' column')) {
+      skippedColumns.add(Number(value) - 1);
+    }
+    bodyStart += 1;
+  }
+
+  const { rows, errors } = parseCsv(lines.slice(bodyStart).join('\n'), {
+    delimiter: separator,
+    startLine: bodyStart + 1,
+  });
+  errors.forEach(({ line, message }) => issues.push({ line, kind: 'repaired', reason: message }));
+
+  rows.forEach(({ line, fields: rawFields }) => {
+    const fields = rawFields.filter((_, column) => !skippedColumns.has(column));
+    const [front = '', back = ''] = fields.map((field) => (html ? stripHtml(field) : field.trim()));
+
+    if (!front || !back) {
+      issues.push({
+        line,
+        kind: 'dropped',
+        reason: front ? 'Missing back of card' : 'Missing front of card',
+      });
+      return;
+    }
+
+    if (fields.length > 2) {
+      issues.push({
+        line,
+        kind: 'repaired',
+        reason: `Ignored ${fields.length - 2} extra field(s)`,
+      });
+    }
+
+    items.push({
+      english: front,
+      chinese: back,
+      checkStatus: '',
+      suggestedZh: '',
+      notes: '',
+      ecdictZh: '',
+      ecdictPos: '',
+      englishKey: front.replace(/\s*\([^)]*\)\s*$/, ''),
+      pos: extractPosTag(front),
+    });
+  });
+
+  return { items, issues };
+};
+
+const createDeckId = () => `deck-${Date.now().toString(36)}`;
+
+export const importDeck = (fileName: string, text: string, now = Date.now()): DeckImport => {
+  const format = detectDeckFormat(fileName, text);
+  const source = text.replace(/^\uFEFF/, '');
+  const report =
+    format === 'anki'
+      ? parseAnkiExport(source)
+      : parseVocabWithReport(source, format === 'tsv' ? '\t' : ',');
+
+  return {
+    deck: {
+      id: createDeckId(),
+      name: fileName.replace(/\.[^.]+$/, '') || 'Imported deck',
+      format,
+      items: report.items,
+      importedAt: now,
+    },
+    issues: report.issues,
+  };
+};
+
+export const combineDecks = (decks: Deck[], activeIds: string[]) => {
+  const active = new Set(activeIds);
+  const seen = new Set<string>();
+
+  return decks
+    .filter((deck) => active.has(deck.id))
+    .flatMap((deck) => deck.items)
+    .filter((item) => {
+      if (seen.has(item.englishKey)) {
+        return false;
+      }
+      seen.add(item.englishKey);
+      return true;
+    });
+};
@@ -0,0 +1,115 @@
+export type DefinitionGroup = {
+  pos: string;
+  domain: string;
+  glosses: string[];
+};
+
+export const domainLabels: Record<string, string> = {
+  计: 'Computing',
+  医: 'Medicine',
+  法: 'Law',
+  经: 'Business',
+  化: 'Chemistry',
+  机: 'Mechanical',
+  电: 'Electrical',
+  网络: 'Internet',
+  建: 'Construction',
+  财: 'Finance',
+  气: 'Meteorology',
+  音: 'Music',
+};
+
+export const DOMAIN_OPTIONS = ['计', '医', '化', '机', '电', '法', '经'];
+
+export const DEFAULT_HIDDEN_DOMAINS = ['计', '医'];
+
+export const posLabels: Record<string, string> = {
+  'n.': 'noun',
+  'v.': 'verb',
+  'vt.': 'transitive verb',
+  'vi.': 'intransitive verb',
+  'a.': 'adjective',
+  'adj.': 'adjective',
+  'adv.': 'adverb',
+  'prep.': 'preposition',
+  'conj.': 'conjunction',
+  'pron.': 'pronoun',
+  'interj.': 'interjection',
+  'int.': 'interjection',
+  'num.': 'numeral',
+  'aux.': 'auxiliary verb',
+  'art.': 'article',
+  'abbr.': 'abbreviation',
+  'pl.': 'plural',
+};
+
+const POS_PATTERN = /^([a-z]+\.)\s*/;
+const DOMAIN_PATTERN = /^\[([^\]]+)\]\s*/;
+
+export const domainLabel = (domain: string) => domainLabels[domain] ?? domain;
+
+export const splitGlosses = (text: string) => {
+  const glosses: string[] = [];
+  let depth = 0;
+  let gloss = '';
+
+  for (const char of text) {
+    if (char === '(' || char === '（') {
+      depth += 1;
+    } else if ((char === ')' || char === '）') && depth > 0) {
+      depth -= 1;
+    } else if (depth === 0 && /[,;，；]/.test(char)) {
+      glosses.push(gloss.trim());
+      gloss = '';
+      continue;
+    }
+    gloss += char;
+  }
+  glosses.push(gloss.trim());
+
+  return Array.from(new Set(glosses.filter(Boolean)));
+};
+
+export const parseDefinition = (raw: string): DefinitionGroup[] => {
+  const groups: DefinitionGroup[] = [];
+
+  raw.split(/\\n|\r?\n/).forEach((line) => {
+    let rest = line.trim();
+    let pos = '';
+    let domain = '';
+
+    const domainMatch = rest.match(DOMAIN_PATTERN);
+    if (domainMatch) {
+      domain = domainMatch[1];
+      rest = rest.slice(domainMatch[0].length);
+    } else {
+      const posMatch = rest.match(POS_PATTERN);
+      if (posMatch && posLabels[posMatch[1]]) {
+        pos = posMatch[1];
+        rest = rest.slice(posMatch[0].length);
+      }
+    }
+
+    const glosses = splitGlosses(rest);
+    if (glosses.length === 0) {
+      return;
+    }
+
+    const existing = groups.find((group) => group.pos === pos && group.domain === domain);
+    if (existing) {
+      existing.glosses = Array.from(new Set([...existing.glosses, ...glosses]));
+    } else {
+      groups.push({ pos, domain, glosses });
+    }
+  });
+
+  return groups;
+};
+
+export const visibleGroups = (groups: DefinitionGroup[], hiddenDomains: string[]) =>
+  groups.filter((group) => !group.domain || !hiddenDomains.includes(group.domain));
+
+export const summarizeDefinition = (raw: string, hiddenDomains: string[]) =>
+  visibleGroups(parseDefinition(raw), hiddenDomains)
+    .map((group) => group.glosses.join('，'))
+    .join('；');
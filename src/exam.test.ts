@@ -0,0 +1,83 @@
+import { describe, expect, it } from 'vitest';
+import { estimateScore, scoreBandFor, scoreExam, type ExamQuestion } from './exam';
+import type { VocabItem } from './vocab';
+
+describe('estimateScore', () => {
+  it.each([
+    [0, 30, { score: 10, low: 10, high: 35 }],
+    [15, 30, { score: 500, low: 410, high: 590 }],
+    [24, 30, { score: 795, low: 725, high: 865 }],
+    [30, 30, { score: 990, low: 965, high: 990 }],
+  ])('maps %i of %i onto the 10-990 scale', (correct, total, expected) => {
+    expect(estimateScore(correct, total)).toMatchObject(expected);
+  });
+
+  it('narrows the range as the test gets longer', () => {
+    const short = estimateScore(5, 10);
+    const long = estimateScore(50, 100);
+    expect(short.score).toBe(long.score);
+    expect(long.high - long.low).toBeLessThan(short.high - short.low);
+  });
+
+  it('spans the whole scale when nothing was answered', () => {
+    expect(estimateScore(0, 0)).toMatchObject({ score: 10, low: 10, high: 990 });
+  });
+
+  it('labels the estimate with its band', () => {
+    expect(estimateScore(24, 30).band.label).toBe('Blue');
+  });
+});
+
+describe('scoreBandFor', () => {
+  it.each([
+    [990, 'Gold'],
+    [860, 'Gold'],
+    [859, 'Blue'],
+    [730, 'Blue'],
+    [729, 'Green'],
+    [470, 'Green'],
+    [469, 'Brown'],
+    [220, 'Brown'],
+    [219, 'Orange'],
+    [10, 'Orange'],
+    [0, 'Orange'],
+  ])('puts %i in the %s band', (score, label) => {
+    expect(scoreBandFor(score).label).toBe(label);
+  });
+});
+
+describe('scoreExam', () => {
+  const question = (section: ExamQuestion['section'], key: string): ExamQuestion => ({
+    section,
+    item: { englishKey: key } as VocabItem,
+    prompt: key,
+    context: null,
+    options: ['a', 'b', 'c', 'd'],
+    answerIndex: 1,
+  });
+
+  it('totals each section and records misses', () => {
+    const questions = [
+      question('listening', 'invoice'),
+      question('listening', 'budget'),
+      question('forms', 'employ'),
+    ];
+    const attempt = scoreExam(questions, [1, 3, null], {
+      startedAt: 1000,
+      finishedAt: 2000,
+      timeLimitMs: 60_000,
+      timedOut: true,
+    });
+
+    expect(attempt.correct).toBe(1);
+    expect(attempt.total).toBe(3);
+    expect(attempt.sections).toEqual([
+      { section: 'listening', correct: 1, total: 2 },
+      { section: 'forms', correct: 0, total: 1 },
+    ]);
+    expect(attempt.misses).toEqual([
+      { key: 'budget', section: 'listening', chosen: 'd', answer: 'b' },
+      { key: 'employ', section: 'forms', chosen: null, answer: 'b' },
+    ]);
+  });
+});
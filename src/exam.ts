@@ -0,0 +1,211 @@
+import type { ClozeQuestion, ExampleMap } from './examples';
+import { buildFormQuestion, hasFormDrill, posLabel, type RelationIndex } from './families';
+import { buildQuizQuestion, groupByPos } from './quiz';
+import { shuffle } from './random';
+import type { VocabItem } from './vocab';
+
+export type ExamSectionId = 'listening' | 'meaning' | 'forms';
+
+export type ExamQuestion = {
+  section: ExamSectionId;
+  item: VocabItem;
+  prompt: string;
+  context: ClozeQuestion | null;
+  options: string[];
+  answerIndex: number;
+};
+
+export type ExamSectionResult = {
+  section: ExamSectionId;
+  correct: number;
+  total: number;
+};
+
+export type ExamMiss = {
+  key: string;
+  section: ExamSectionId;
+  chosen: string | null;
+  answer: string;
+};
+
+export type ExamAttempt = {
+  id: string;
+  startedAt: number;
+  finishedAt: number;
+  timeLimitMs: number;
+  timedOut: boolean;
+  correct: number;
+  total: number;
+  sections: ExamSectionResult[];
+  misses: ExamMiss[];
+};
+
+export type ScoreEstimate = {
+  score: number;
+  low: number;
+  high: number;
+  band: ScoreBand;
+};
+
+export type ScoreBand = {
+  min: number;
+  label: string;
+  description: string;
+};
+
+export const examSectionLabels: Record<ExamSectionId, string> = {
+  listening: 'Listening',
+  meaning: 'Meaning',
+  forms: 'Word Forms',
+};
+
+export const EXAM_SECTION_ORDER: ExamSectionId[] = ['listening', 'meaning', 'forms'];
+export const EXAM_QUESTIONS_PER_SECTION = 10;
+export const EXAM_TIME_LIMIT_MS = 12 * 60 * 1000;
+export const EXAM_HISTORY_LIMIT = 20;
+
+const TOEIC_MIN_SCORE = 10;
+const TOEIC_MAX_SCORE = 990;
+const MIN_MARGIN = 25;
+
+// Certificate colors used on the official score report, highest first.
+export const SCORE_BANDS: ScoreBand[] = [
+  { min: 860, label: 'Gold', description: 'Communicates effectively in most business settings.' },
+  { min: 730, label: 'Blue', description: 'Handles routine work communication with confidence.' },
+  { min: 470, label: 'Green', description: 'Meets everyday needs and limited work demands.' },
+  { min: 220, label: 'Brown', description: 'Manages simple, familiar exchanges.' },
+  { min: TOEIC_MIN_SCORE, label: 'Orange', description: 'Recognizes basic, high-frequency words.' },
+];
+
+const roundToFive = (value: number) => Math.round(value / 5) * 5;
+
+const clampScore = (value: number) =>
+  Math.min(TOEIC_MAX_SCORE, Math.max(TOEIC_MIN_SCORE, roundToFive(value)));
+
+export const scoreBandFor = (score: number) =>
+  SCORE_BANDS.find((band) => score >= band.min) ?? SCORE_BANDS[SCORE_BANDS.length - 1];
+
+// A short mock test is a small sample, so the range widens with the standard error.
+export const estimateScore = (correct: number, total: number): ScoreEstimate => {
+  const ratio = total > 0 ? correct / total : 0;
+  const span = TOEIC_MAX_SCORE - TOEIC_MIN_SCORE;
+  const score = clampScore(TOEIC_MIN_SCORE + ratio * span);
+  const standardError = total > 0 ? Math.sqrt((ratio * (1 - ratio)) / total) : 1;
+  const margin = Math.max(MIN_MARGIN, roundToFive(standardError * span));
+  return {
+    score,
+    low: clampScore(score - margin),
+    high: clampScore(score + margin),
+    band: scoreBandFor(score),
+  };
+};
+
+const pickTargets = (pool: VocabItem[], count: number, taken: Set<string>) => {
+  const picked = shuffle(pool)
+    .filter((item) => !taken.has(item.englishKey))
+    .slice(0, count);
+  picked.forEach((item) => taken.add(item.englishKey));
+  return picked;
+};
+
+export const buildExam = (
+  items: VocabItem[],
+  distractorPool: VocabItem[],
+  relations: RelationIndex,
+  byKey: Map<string, VocabItem>,
+  examples: ExampleMap,
+  { listening }: { listening: boolean }
+): ExamQuestion[] => {
+  const taken = new Set<string>();
+  const posGroups = groupByPos(distractorPool);
+  const formPool = items.filter((item) => hasFormDrill(item, relations, byKey));
+
+  // Form items are scarcer, so reserve them before the other sections draw from the pool.
+  const formTargets = pickTargets(formPool, EXAM_QUESTIONS_PER_SECTION, taken);
+  const listeningTargets = listening
+    ? pickTargets(items, EXAM_QUESTIONS_PER_SECTION, taken)
+    : [];
+  const meaningTargets = pickTargets(items, EXAM_QUESTIONS_PER_SECTION, taken);
+
+  const recognition = (section: ExamSectionId, item: VocabItem): ExamQuestion => {
+    const question = buildQuizQuestion(item, distractorPool, 'en-zh', posGroups);
+    return {
+      section,
+      item,
+      prompt: section === 'listening' ? item.englishKey : question.prompt,
+      context: null,
+      options: question.options,
+      answerIndex: question.answerIndex,
+    };
+  };
+
+  const forms = formTargets.map((item): ExamQuestion => {
+    const question = buildFormQuestion(item, relations, byKey, examples);
+    return {
+      section: 'forms',
+      item,
+      prompt: `Which form is the ${posLabel(question.pos)} meaning “${item.chinese}”?`,
+      context: question.context,
+      options: question.options.map((option) => option.englishKey),
+      answerIndex: question.answerIndex,
+    };
+  });
+
+  return [
+    ...listeningTargets.map((item) => recognition('listening', item)),
+    ...meaningTargets.map((item) => recognition('meaning', item)),
+    ...forms,
+  ];
+};
+
+export const scoreExam = (
+  questions: ExamQuestion[],
+  answers: (number | null)[],
+  {
+    startedAt,
+    finishedAt,
+    timeLimitMs,
+    timedOut,
+  }: Pick<ExamAttempt, 'startedAt' | 'finishedAt' | 'timeLimitMs' | 'timedOut'>
+): ExamAttempt => {
+  const sections = EXAM_SECTION_ORDER.map((section) => ({ section, correct: 0, total: 0 }));
+  const misses: ExamMiss[] = [];
+
+  questions.forEach((question, index) => {
+    const choice = answers[index] ?? null;
+    const correct = choice === question.answerIndex;
+    const entry = sections.find((result) => result.section === question.section);
+    if (entry) {
+      entry.total += 1;
+      entry.correct += correct ? 1 : 0;
+    }
+    if (!correct) {
+      misses.push({
+        key: question.item.englishKey,
+        section: question.section,
+        chosen: choice === null ? null : question.options[choice],
+        answer: question.options[question.answerIndex],
+      });
+    }
+  });
+
+  return {
+    id: `exam-${startedAt}`,
+    startedAt,
+    finishedAt,
+    timeLimitMs,
+    timedOut,
+    correct: questions.length - misses.length,
+    total: questions.length,
+    sections: sections.filter((result) => result.total > 0),
+    misses,
+  };
+};
+
+export const addExamAttempt = (attempts: ExamAttempt[], attempt: ExamAttempt) =>
+  [attempt, ...attempts].slice(0, EXAM_HISTORY_LIMIT);
+
+export const formatExamTime = (ms: number) => {
+  const seconds = Math.max(0, Math.ceil(ms / 1000));
+  return `${Math.floor(seconds / 60)}:${String(seconds % 60).padStart(2, '0')}`;
+};
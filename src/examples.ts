@@ -0,0 +1,99 @@
+import { normalizeLookup, type VocabItem } from './vocab';
+
+export type ExampleEntry = {
+  sentences: string[];
+  collocations: string[];
+};
+
+export type ExampleMap = Record<string, ExampleEntry>;
+
+export type HighlightSegment = {
+  text: string;
+  match: boolean;
+};
+
+export type ClozeQuestion = {
+  item: VocabItem;
+  sentence: string;
+  before: string;
+  after: string;
+  answer: string;
+};
+
+export const CLOZE_BLANK = '_____';
+
+// Examples exist for a curated core of words only; every caller treats a miss as "no feature".
+export const findExamples = (examples: ExampleMap, item: VocabItem) =>
+  examples[normalizeLookup(item.englishKey)];
+
+const escapeRegExp = (value: string) => value.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+
+const INFLECTION_SUFFIX =
+  '(?:[bdgklmnprt](?=ed|ing|er))?(?:e|es|ed|s|d|ing|er|ers|ly|ment|ments|ion|ions)?';
+
+const stemOf = (word: string) => {
+  if (word.length <= 3) {
+    return word;
+  }
+  if (word.endsWith('y')) {
+    return `${word.slice(0, -1)}(?:y|i)`;
+  }
+  return word.replace(/e$/, '');
+};
+
+// Single words also match common inflections ("ship" → "shipped", "apply" → "applies").
+const termPattern = (term: string) => {
+  const words = normalizeLookup(term).split(' ').filter(Boolean).map(escapeRegExp);
+  if (words.length === 0) {
+    return null;
+  }
+  if (words.length === 1) {
+    return new RegExp(`\\b${stemOf(words[0])}${INFLECTION_SUFFIX}\\b`, 'gi');
+  }
+  return new RegExp(`\\b${words.join('\\s+')}\\b`, 'gi');
+};
+
+export const highlightTerm = (sentence: string, term: string): HighlightSegment[] => {
+  const pattern = termPattern(term);
+  if (!pattern) {
+    return [{ text: sentence, match: false }];
+  }
+
+  const segments: HighlightSegment[] = [];
+  let lastIndex = 0;
+  for (const match of sentence.matchAll(pattern)) {
+    const start = match.index ?? 0;
+    if (start > lastIndex) {
+      segments.push({ text: sentence.slice(lastIndex, start), match: false });
+    }
+    segments.push({ text: match[0], match: true });
+    lastIndex = start + match[0].length;
+  }
+  if (lastIndex < sentence.length) {
+    segments.push({ text: sentence.slice(lastIndex), match: false });
+  }
+  return segments;
+};
+
+export const buildCloze = (item: VocabItem, sentence: string): ClozeQuestion | null => {
+  const pattern = termPattern(item.englishKey);
+  const match = pattern ? pattern.exec(sentence) : null;
+  if (!match) {
+    return null;
+  }
+
+  return {
+    item,
+    sentence,
+    before: sentence.slice(0, match.index),
+    after: sentence.slice(match.index + match[0].length),
+    answer: match[0],
+  };
+};
+
+export const clozeCandidates = (items: VocabItem[], examples: ExampleMap) =>
+  items.flatMap((item) =>
+    (findExamples(examples, item)?.sentences ?? [])
+      .map((sentence) => buildCloze(item, sentence))
+      .filter((question): question is ClozeQuestion => question !== null)
+  );
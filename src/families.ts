@@ -0,0 +1,232 @@
+import { posLabels } from './definitions';
+import { buildCloze, findExamples, type ClozeQuestion, type ExampleMap } from './examples';
+import { shuffle } from './random';
+import type { VocabItem } from './vocab';
+
+export type RelationIndex = {
+  families: Map<string, string[]>;
+  confusables: Map<string, string[]>;
+};
+
+export type FormQuestion = {
+  item: VocabItem;
+  family: VocabItem[];
+  pos: string;
+  options: VocabItem[];
+  answerIndex: number;
+  context: ClozeQuestion | null;
+};
+
+const MIN_STEM = 4;
+const MIN_CONFUSABLE_LENGTH = 5;
+const CONFUSABLE_LIMIT = 3;
+const FORM_OPTION_LIMIT = 4;
+
+// Longer suffixes precede their tails ("-ation" before "-ion") so the longest match wins.
+const DERIVATIONAL_SUFFIXES = [
+  'ization',
+  'ability',
+  'ibility',
+  'ivity',
+  'ation',
+  'ition',
+  'ement',
+  'ment',
+  'ness',
+  'ance',
+  'ence',
+  'ancy',
+  'ency',
+  'ship',
+  'tion',
+  'sion',
+  'able',
+  'ible',
+  'ity',
+  'ive',
+  'ous',
+  'ful',
+  'ial',
+  'ant',
+  'ent',
+  'ize',
+  'ise',
+  'ify',
+  'ion',
+  'ally',
+  'ly',
+  'al',
+  'ee',
+  'er',
+  'or',
+  'ic',
+];
+
+// Look-alikes that differ by more than one letter, so the spelling check below misses them.
+export const KNOWN_CONFUSABLES = [
+  ['affect', 'effect'],
+  ['personal', 'personnel'],
+  ['adapt', 'adopt'],
+  ['accept', 'except'],
+  ['advice', 'advise'],
+  ['complement', 'compliment'],
+  ['principal', 'principle'],
+  ['stationary', 'stationery'],
+  ['economic', 'economical'],
+  ['continual', 'continuous'],
+  ['precede', 'proceed'],
+  ['ensure', 'insure'],
+  ['lose', 'loose'],
+  ['later', 'latter'],
+  ['loan', 'lend'],
+  ['rise', 'raise'],
+];
+
+const isSingleWord = (key: string) => /^[a-z]+$/.test(key);
+
+const trimStem = (stem: string) => {
+  const base = stem.endsWith('i') ? `${stem.slice(0, -1)}y` : stem;
+  return /[ey]$/.test(base) && base.length > MIN_STEM ? base.slice(0, -1) : base;
+};
+
+export const familyStem = (key: string) => {
+  const suffix = DERIVATIONAL_SUFFIXES.find(
+    (value) => key.endsWith(value) && key.length - value.length >= MIN_STEM
+  );
+  return trimStem(suffix ? key.slice(0, -suffix.length) : key);
+};
+
+const addRelation = (relations: Map<string, string[]>, a: string, b: string) => {
+  const list = relations.get(a) ?? [];
+  if (a !== b && !list.includes(b)) {
+    list.push(b);
+    relations.set(a, list);
+  }
+};
+
+// Words one substitution/insertion/deletion apart share a single-letter-deleted variant.
+const deletionVariants = (key: string) => {
+  const variants = new Set([key]);
+  for (let index = 0; index < key.length; index += 1) {
+    variants.add(key.slice(0, index) + key.slice(index + 1));
+  }
+  return variants;
+};
+
+export const buildRelationIndex = (items: VocabItem[]): RelationIndex => {
+  const keys = Array.from(new Set(items.map((item) => item.englishKey))).filter(isSingleWord);
+  const byStem = new Map<string, string[]>();
+  keys.forEach((key) => {
+    const stem = familyStem(key);
+    byStem.set(stem, [...(byStem.get(stem) ?? []), key]);
+  });
+
+  const families = new Map<string, string[]>();
+  const stemOf = new Map<string, string>();
+  byStem.forEach((members, stem) => {
+    members.forEach((key) => stemOf.set(key, stem));
+    if (members.length > 1) {
+      members.forEach((key) => families.set(key, members));
+    }
+  });
+
+  const confusables = new Map<string, string[]>();
+  const link = (a: string, b: string) => {
+    // Prefix pairs (advance / advanced) are inflections, not look-alikes.
+    if (stemOf.get(a) === stemOf.get(b) || a.startsWith(b) || b.startsWith(a)) {
+      return;
+    }
+    addRelation(confusables, a, b);
+    addRelation(confusables, b, a);
+  };
+
+  const byVariant = new Map<string, string[]>();
+  keys
+    .filter((key) => key.length >= MIN_CONFUSABLE_LENGTH)
+    .forEach((key) => {
+      deletionVariants(key).forEach((variant) => {
+        const seen = byVariant.get(variant) ?? [];
+        seen.forEach((other) => link(key, other));
+        byVariant.set(variant, [...seen, key]);
+      });
+    });
+
+  // Curated pairs go first so they survive the per-word cap.
+  const known = new Set(keys);
+  const curated = new Map<string, string[]>();
+  KNOWN_CONFUSABLES.forEach(([a, b]) => {
+    if (known.has(a) && known.has(b)) {
+      addRelation(curated, a, b);
+      addRelation(curated, b, a);
+    }
+  });
+
+  const closeness = (key: string, other: string) =>
+    (other[0] === key[0] ? 0 : 2) + (other.length === key.length ? 0 : 1);
+  new Set([...curated.keys(), ...confusables.keys()]).forEach((key) => {
+    const spelled = (confusables.get(key) ?? []).sort(
+      (a, b) => closeness(key, a) - closeness(key, b)
+    );
+    const pinned = curated.get(key) ?? [];
+    const merged = [...pinned, ...spelled.filter((other) => !pinned.includes(other))];
+    confusables.set(key, merged.slice(0, Math.max(CONFUSABLE_LIMIT, pinned.length)));
+  });
+
+  return { families, confusables };
+};
+
+export const relatedItems = (
+  relations: Map<string, string[]>,
+  key: string,
+  byKey: Map<string, VocabItem>
+) =>
+  (relations.get(key) ?? [])
+    .filter((other) => other !== key)
+    .map((other) => byKey.get(other))
+    .filter((item): item is VocabItem => Boolean(item));
+
+export const posLabel = (pos: string) => posLabels[pos] ?? pos.replace(/\.$/, '');
+
+const familyOf = (item: VocabItem, index: RelationIndex, byKey: Map<string, VocabItem>) => [
+  item,
+  ...relatedItems(index.families, item.englishKey, byKey),
+];
+
+// Drillable when the family spans more than one part of speech; the meaning settles ties.
+export const hasFormDrill = (
+  item: VocabItem,
+  index: RelationIndex,
+  byKey: Map<string, VocabItem>
+) =>
+  Boolean(item.pos) &&
+  new Set(familyOf(item, index, byKey).map((member) => member.pos)).size > 1;
+
+// Only use a sentence when its blank is the word itself, not another member of the family.
+const findContext = (item: VocabItem, examples: ExampleMap) => {
+  const key = item.englishKey;
+  const forms = [key, `${key}s`, `${key}es`, `${key}d`, `${key}ed`];
+  return (
+    shuffle(findExamples(examples, item)?.sentences ?? [])
+      .map((sentence) => buildCloze(item, sentence))
+      .find((cloze) => cloze && forms.includes(cloze.answer.toLowerCase())) ?? null
+  );
+};
+
+export const buildFormQuestion = (
+  item: VocabItem,
+  index: RelationIndex,
+  byKey: Map<string, VocabItem>,
+  examples: ExampleMap
+): FormQuestion => {
+  const family = familyOf(item, index, byKey);
+  const others = shuffle(family.slice(1)).slice(0, FORM_OPTION_LIMIT - 1);
+  const options = shuffle([item, ...others]);
+  return {
+    item,
+    family,
+    pos: item.pos,
+    options,
+    answerIndex: options.indexOf(item),
+    context: findContext(item, examples),
+  };
+};
@@ -0,0 +1,36 @@
+import { describe, expect, it } from 'vitest';
+import { loadTraditionalConverter } from './chinese';
+import { buildLookupIndex, searchLookup, type DictionaryMap } from './lookup';
+import type { VocabItem } from './vocab';
+
+const dictionary: DictionaryMap = {
+  freight: { zh: 'n. 货物, 运费, 货运', pos: 'n.' },
+  software: { zh: 'n. 软件', pos: 'n.' },
+};
+
+const items = [
+  { englishKey: 'budget', chinese: '預算', ecdictZh: 'n. 预算', ecdictPos: 'n.' },
+] as VocabItem[];
+
+const terms = (query: string, index: ReturnType<typeof buildLookupIndex>) =>
+  searchLookup(index, query).map((candidate) => candidate.term);
+
+describe('reverse lookup', () => {
+  it('matches a Traditional query against Simplified ECDICT text', async () => {
+    const index = buildLookupIndex(dictionary, items, await loadTraditionalConverter());
+    expect(terms('運費', index)).toEqual(['freight']);
+    expect(terms('軟體', index)).toEqual(['software']);
+  });
+
+  it('matches a Simplified query against Traditional vocab meanings', async () => {
+    const index = buildLookupIndex(dictionary, items, await loadTraditionalConverter());
+    expect(terms('预算', index)).toEqual(['budget']);
+    expect(terms('运费', index)).toEqual(['freight']);
+  });
+
+  it('only matches the typed script before the converter loads', () => {
+    const index = buildLookupIndex(dictionary, items);
+    expect(terms('運費', index)).toEqual([]);
+    expect(terms('运费', index)).toEqual(['freight']);
+  });
+});
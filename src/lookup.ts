@@ -0,0 +1,212 @@
+import type { ChineseConverter } from './chinese';
+import { editDistance } from './spelling';
+import { normalizeLookup, type VocabItem } from './vocab';
+
+export type DictionaryEntry = {
+  zh: string;
+  pos: string;
+};
+
+export type DictionaryMap = Record<string, DictionaryEntry>;
+
+export type LookupMatch = 'exact' | 'lemma' | 'prefix' | 'fuzzy' | 'reverse';
+
+export type LookupEntry = {
+  term: string;
+  zh: string;
+  pos: string;
+  vocab?: VocabItem;
+};
+
+export type LookupCandidate = LookupEntry & {
+  match: LookupMatch;
+  score: number;
+  lemmaOf?: string;
+};
+
+type ReverseText = {
+  vocab: string;
+  zh: string;
+};
+
+export type LookupIndex = {
+  entries: Map<string, LookupEntry>;
+  sortedTerms: string[];
+  toScript: ChineseConverter;
+  reverseText: Map<string, ReverseText>;
+};
+
+const CJK_PATTERN = /[\u3400-\u9fff\uf900-\ufaff]/;
+const MAX_FUZZY_DISTANCE = 2;
+
+export const isChineseQuery = (query: string) => CJK_PATTERN.test(query);
+
+// Vocab meanings are Traditional and ECDICT is Simplified, so reverse search compares both
+// (and the query) in Traditional once the converter is available.
+export const buildLookupIndex = (
+  dictionary: DictionaryMap,
+  items: VocabItem[],
+  toTraditional: ChineseConverter | null = null
+): LookupIndex => {
+  const entries = new Map<string, LookupEntry>();
+
+  Object.entries(dictionary).forEach(([term, entry]) => {
+    entries.set(term, { term, zh: entry.zh, pos: entry.pos });
+  });
+
+  items.forEach((item) => {
+    const term = normalizeLookup(item.englishKey);
+    if (!term) {
+      return;
+    }
+    const existing = entries.get(term);
+    entries.set(term, {
+      term,
+      zh: existing?.zh || item.ecdictZh,
+      pos: existing?.pos || item.ecdictPos,
+      vocab: existing?.vocab ?? item,
+    });
+  });
+
+  const toScript = toTraditional ?? ((text: string) => text);
+  const reverseText = new Map<string, ReverseText>();
+  entries.forEach((entry, term) => {
+    reverseText.set(term, { vocab: toScript(entry.vocab?.chinese ?? ''), zh: toScript(entry.zh) });
+  });
+
+  return { entries, sortedTerms: Array.from(entries.keys()).sort(), toScript, reverseText };
+};
+
+const inflectionRules: Array<[RegExp, string]> = [
+  [/ies$/, 'y'],
+  [/ied$/, 'y'],
+  [/ier$/, 'y'],
+  [/iest$/, 'y'],
+  [/ily$/, 'y'],
+  [/([^aeiou])\1(ed|ing|er|est)$/, '$1'],
+  [/(ed|ing|er|est)$/, 'e'],
+  [/(ed|ing|er|est)$/, ''],
+  [/(s|x|z|ch|sh)es$/, '$1'],
+  [/ves$/, 'f'],
+  [/ves$/, 'fe'],
+  [/s$/, ''],
+  [/ly$/, ''],
+  [/ment$/, ''],
+];
+
+export const lemmaCandidates = (word: string) => {
+  const candidates = new Set<string>();
+  inflectionRules.forEach(([pattern, replacement]) => {
+    if (pattern.test(word)) {
+      const stem = word.replace(pattern, replacement);
+      if (stem.length >= 2 && stem !== word) {
+        candidates.add(stem);
+      }
+    }
+  });
+  return Array.from(candidates);
+};
+
+const lowerBound = (terms: string[], prefix: string) => {
+  let low = 0;
+  let high = terms.length;
+  while (low < high) {
+    const middle = (low + high) >> 1;
+    if (terms[middle] < prefix) {
+      low = middle + 1;
+    } else {
+      high = middle;
+    }
+  }
+  return low;
+};
+
+const searchReverse = (index: LookupIndex, rawQuery: string) => {
+  const results: LookupCandidate[] = [];
+  const query = index.toScript(rawQuery);
+
+  index.entries.forEach((entry, term) => {
+    const { vocab: vocabText, zh } = index.reverseText.get(term) ?? { vocab: '', zh: '' };
+    const segments = vocabText.split(/[；;，,、\s]+/);
+    let score = 0;
+
+    if (segments.includes(query)) {
+      score = 700;
+    } else if (vocabText.includes(query)) {
+      score = 600 - Math.min(100, vocabText.length);
+    } else if (zh.includes(query)) {
+      score = 400 - Math.min(100, zh.indexOf(query));
+    }
+
+    if (score > 0) {
+      results.push({ ...entry, match: 'reverse', score });
+    }
+  });
+
+  return results;
+};
+
+const searchEnglish = (index: LookupIndex, key: string) => {
+  const results = new Map<string, LookupCandidate>();
+  const add = (candidate: LookupCandidate) => {
+    const existing = results.get(candidate.term);
+    if (!existing || existing.score < candidate.score) {
+      results.set(candidate.term, candidate);
+    }
+  };
+
+  const exact = index.entries.get(key);
+  if (exact) {
+    add({ ...exact, match: 'exact', score: 1000 });
+  }
+
+  lemmaCandidates(key).forEach((stem) => {
+    const entry = index.entries.get(stem);
+    if (entry) {
+      add({ ...entry, match: 'lemma', score: 900 - (key.length - stem.length), lemmaOf: key });
+    }
+  });
+
+  const { sortedTerms } = index;
+  const start = lowerBound(sortedTerms, key);
+  for (let position = start; position < sortedTerms.length; position += 1) {
+    const term = sortedTerms[position];
+    if (!term.startsWith(key)) {
+      break;
+    }
+    const entry = index.entries.get(term);
+    if (entry && term !== key) {
+      add({ ...entry, match: 'prefix', score: 800 - (term.length - key.length) });
+    }
+  }
+
+  if (key.length >= 3) {
+    const maxDistance = key.length >= 6 ? MAX_FUZZY_DISTANCE : 1;
+    index.entries.forEach((entry) => {
+      if (Math.abs(entry.term.length - key.length) > maxDistance || results.has(entry.term)) {
+        return;
+      }
+      const distance = editDistance(key, entry.term);
+      if (distance > 0 && distance <= maxDistance) {
+        add({ ...entry, match: 'fuzzy', score: 500 - distance * 100 + (entry.vocab ? 10 : 0) });
+      }
+    });
+  }
+
+  return Array.from(results.values());
+};
+
+export const searchLookup = (index: LookupIndex, query: string, limit = 8) => {
+  const trimmed = query.trim();
+  if (!trimmed) {
+    return [];
+  }
+
+  const results = isChineseQuery(trimmed)
+    ? searchReverse(index, trimmed)
+    : searchEnglish(index, normalizeLookup(trimmed));
+
+  return results
+    .sort((a, b) => b.score - a.score || a.term.localeCompare(b.term))
+    .slice(0, limit);
+};
@@ -0,0 +1,173 @@
+export type PlaybackField = 'english' | 'chinese' | 'definition' | 'example';
+
+export type PlaybackStep = { kind: 'speak'; field: PlaybackField } | { kind: 'pause'; ms: number };
+
+export type PlaybackScript = {
+  id: string;
+  name: string;
+  steps: PlaybackStep[];
+};
+
+export type ScriptParseResult = { ok: true; steps: PlaybackStep[] } | { ok: false; error: string };
+
+const speak = (field: PlaybackField): PlaybackStep => ({ kind: 'speak', field });
+const pause = (ms: number): PlaybackStep => ({ kind: 'pause', ms });
+
+export const DEFAULT_SCRIPT_ID = 'classic';
+
+export const builtInScripts: PlaybackScript[] = [
+  {
+    id: DEFAULT_SCRIPT_ID,
+    name: 'Classic (EN → ZH → EN → ZH)',
+    steps: [
+      speak('english'),
+      pause(700),
+      speak('chinese'),
+      pause(700),
+      speak('english'),
+      pause(700),
+      speak('chinese'),
+      pause(900),
+    ],
+  },
+  {
+    id: 'think-time',
+    name: 'Think time (EN, 2s, ZH)',
+    steps: [speak('english'), pause(2000), speak('chinese'), pause(900)],
+  },
+  {
+    id: 'english-x3',
+    name: 'Shadowing (EN ×3)',
+    steps: [
+      speak('english'),
+      pause(700),
+      speak('english'),
+      pause(700),
+      speak('english'),
+      pause(900),
+    ],
+  },
+  {
+    id: 'reverse',
+    name: 'Reverse recall (ZH, 2s, EN)',
+    steps: [speak('chinese'), pause(2000), speak('english'), pause(900)],
+  },
+  {
+    id: 'with-definition',
+    name: 'With dictionary (EN, ZH, definition)',
+    steps: [
+      speak('english'),
+      pause(700),
+      speak('chinese'),
+      pause(700),
+      speak('definition'),
+      pause(900),
+    ],
+  },
+  {
+    id: 'in-context',
+    name: 'In context (EN, ZH, example sentence)',
+    steps: [
+      speak('english'),
+      pause(700),
+      speak('chinese'),
+      pause(700),
+      speak('example'),
+      pause(1200),
+    ],
+  },
+];
+
+const fieldTokens: Record<string, PlaybackField> = {
+  en: 'english',
+  english: 'english',
+  zh: 'chinese',
+  chinese: 'chinese',
+  def: 'definition',
+  definition: 'definition',
+  dict: 'definition',
+  ex: 'example',
+  example: 'example',
+  sentence: 'example',
+};
+
+const fieldLabels: Record<PlaybackField, string> = {
+  english: 'EN',
+  chinese: 'ZH',
+  definition: 'DEF',
+  example: 'EX',
+};
+
+const MAX_REPEAT = 10;
+const MAX_PAUSE_MS = 30000;
+
+const parsePause = (token: string) => {
+  const match = token.match(/^(?:pause\s*)?(\d+(?:\.\d+)?)\s*(ms|s)$/);
+  if (!match) {
+    return undefined;
+  }
+
+  const value = Number(match[1]);
+  return Math.round(match[2] === 's' ? value * 1000 : value);
+};
+
+export const parseScript = (text: string): ScriptParseResult => {
+  const tokens = text
+    .split(/[,→>]+/)
+    .map((token) => token.trim().toLowerCase())
+    .filter(Boolean);
+
+  if (tokens.length === 0) {
+    return { ok: false, error: 'Add at least one step, e.g. "EN, 2s, ZH".' };
+  }
+
+  const steps: PlaybackStep[] = [];
+
+  for (const token of tokens) {
+    const pauseMs = parsePause(token);
+    if (pauseMs !== undefined) {
+      if (pauseMs > MAX_PAUSE_MS) {
+        return { ok: false, error: `Pauses are limited to ${MAX_PAUSE_MS / 1000}s.` };
+      }
+      steps.push(pause(pauseMs));
+      continue;
+    }
+
+    const match = token.match(/^([a-z]+)(?:\s*[x×*]\s*(\d+))?$/);
+    const field = match ? fieldTokens[match[1]] : undefined;
+    if (!match || !field) {
+      return {
+        ok: false,
+        error: `Unknown step "${token}". Use EN, ZH, DEF, EX or a pause like 2s.`,
+      };
+    }
+
+    const repeat = Number(match[2] ?? 1);
+    if (repeat < 1 || repeat > MAX_REPEAT) {
+      return { ok: false, error: `Repeat counts must be between 1 and ${MAX_REPEAT}.` };
+    }
+
+    for (let count = 0; count < repeat; count += 1) {
+      if (count > 0) {
+        steps.push(pause(700));
+      }
+      steps.push(speak(field));
+    }
+  }
+
+  if (!steps.some((step) => step.kind === 'speak')) {
+    return { ok: false, error: 'A script needs at least one EN, ZH, DEF or EX step.' };
+  }
+
+  return { ok: true, steps };
+};
+
+export const describeStep = (step: PlaybackStep) =>
+  step.kind === 'speak' ? fieldLabels[step.field] : `${(step.ms / 1000).toFixed(1)}s`;
+
+export const formatScript = (steps: PlaybackStep[]) => steps.map(describeStep).join(', ');
+
+export const findScript = (scripts: PlaybackScript[], id: string) =>
+  scripts.find((script) => script.id === id) ?? builtInScripts[0];
+
+export const createScriptId = () => `custom-${Date.now().toString(36)}`;
@@ -0,0 +1,21 @@
+import { describe, expect, it } from 'vitest';
+import { addProfile, createDefaultRegistry } from './profiles';
+
+describe('addProfile', () => {
+  it('gives profiles added in the same millisecond different ids', () => {
+    const now = Date.UTC(2026, 9, 19, 9, 30);
+    const first = addProfile(createDefaultRegistry(), 'Mei', now);
+    const second = addProfile(first.registry, 'Kenji', now);
+
+    expect(first.profile.id).not.toBe(second.profile.id);
+    expect(new Set(second.registry.profiles.map((profile) => profile.id)).size).toBe(3);
+  });
+
+  it('builds the id from the given time', () => {
+    const now = Date.UTC(2026, 9, 19, 9, 30);
+    const { profile } = addProfile(createDefaultRegistry(), 'Mei', now);
+
+    expect(profile.id.startsWith(`profile-${now.toString(36)}-`)).toBe(true);
+    expect(profile.createdAt).toBe(now);
+  });
+});
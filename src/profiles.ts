@@ -0,0 +1,109 @@
+import { DEFAULT_PROFILE_ID } from './storage';
+
+export type LearnerProfile = {
+  id: string;
+  name: string;
+  createdAt: number;
+};
+
+export type ProfileRegistry = {
+  activeId: string;
+  profiles: LearnerProfile[];
+};
+
+export const PROFILE_NAME_LIMIT = 40;
+
+// The registry lives outside any profile's store so the app knows which store to open first.
+const REGISTRY_KEY = 'learn-toeic:profiles';
+
+export const createDefaultRegistry = (): ProfileRegistry => ({
+  activeId: DEFAULT_PROFILE_ID,
+  profiles: [{ id: DEFAULT_PROFILE_ID, name: 'Learner 1', createdAt: 0 }],
+});
+
+const isProfile = (value: unknown): value is LearnerProfile =>
+  typeof value === 'object' &&
+  value !== null &&
+  typeof (value as LearnerProfile).id === 'string' &&
+  typeof (value as LearnerProfile).name === 'string';
+
+export const loadProfileRegistry = (): ProfileRegistry => {
+  const fallback = createDefaultRegistry();
+  try {
+    const raw = JSON.parse(window.localStorage.getItem(REGISTRY_KEY) ?? 'null') as unknown;
+    const record = (raw ?? {}) as Partial<ProfileRegistry>;
+    const profiles = Array.isArray(record.profiles) ? record.profiles.filter(isProfile) : [];
+    if (profiles.length === 0) {
+      return fallback;
+    }
+    const activeId = profiles.some((profile) => profile.id === record.activeId)
+      ? (record.activeId as string)
+      : profiles[0].id;
+    return { activeId, profiles };
+  } catch (error) {
+    return fallback;
+  }
+};
+
+export const saveProfileRegistry = (registry: ProfileRegistry) => {
+  try {
+    window.localStorage.setItem(REGISTRY_KEY, JSON.stringify(registry));
+    return true;
+  } catch (error) {
+    return false;
+  }
+};
+
+export const normalizeProfileName = (name: string) =>
+  name.trim().replace(/\s+/g, ' ').slice(0, PROFILE_NAME_LIMIT);
+
+// The id names the profile's database, so it must never repeat, even for adds in one millisecond.
+const createProfileId = (registry: ProfileRegistry, now: number) => {
+  const taken = new Set(registry.profiles.map((profile) => profile.id));
+  let id = '';
+  do {
+    id = `profile-${now.toString(36)}-${Math.random().toString(36).slice(2, 8)}`;
+  } while (taken.has(id));
+  return id;
+};
+
+export const addProfile = (
+  registry: ProfileRegistry,
+  name: string,
+  now = Date.now()
+): { registry: ProfileRegistry; profile: LearnerProfile } => {
+  const profile = {
+    id: createProfileId(registry, now),
+    name: normalizeProfileName(name) || `Learner ${registry.profiles.length + 1}`,
+    createdAt: now,
+  };
+  return { registry: { ...registry, profiles: [...registry.profiles, profile] }, profile };
+};
+
+export const renameProfile = (registry: ProfileRegistry, id: string, name: string) => {
+  const nextName = normalizeProfileName(name);
+  if (!nextName) {
+    return registry;
+  }
+  return {
+    ...registry,
+    profiles: registry.profiles.map((profile) =>
+      profile.id === id ? { ...profile, name: nextName } : profile
+    ),
+  };
+};
+
+// The active profile owns the open store, so it can only be removed after switching away.
+export const removeProfile = (registry: ProfileRegistry, id: string) =>
+  id === registry.activeId
+    ? registry
+    : { ...registry, profiles: registry.profiles.filter((profile) => profile.id !== id) };
+
+export const findProfile = (registry: ProfileRegistry, id: string) =>
+  registry.profiles.find((profile) => profile.id === id) ?? registry.profiles[0];
+
+export const profileFileSlug = (profile: LearnerProfile) =>
+  profile.name
+    .toLowerCase()
+    .replace(/[^a-z0-9]+/g, '-')
+    .replace(/^-|-$/g, '') || profile.id;
@@ -0,0 +1,72 @@
+export type ServiceWorkerHandlers = {
+  onOfflineReady: () => void;
+  onUpdateAvailable: (applyUpdate: () => void) => void;
+};
+
+const UPDATE_CHECK_MS = 60 * 60 * 1000;
+
+export const registerServiceWorker = (handlers: ServiceWorkerHandlers) => {
+  if (!import.meta.env.PROD || !('serviceWorker' in navigator)) {
+    return () => {};
+  }
+
+  let disposed = false;
+  let updateRequested = false;
+  let timer: number | undefined;
+
+  const promptUpdate = (worker: ServiceWorker) => {
+    if (disposed) {
+      return;
+    }
+    handlers.onUpdateAvailable(() => {
+      updateRequested = true;
+      worker.postMessage({ type: 'SKIP_WAITING' });
+    });
+  };
+
+  const handleControllerChange = () => {
+    if (updateRequested) {
+      window.location.reload();
+    }
+  };
+
+  navigator.serviceWorker.addEventListener('controllerchange', handleControllerChange);
+  navigator.serviceWorker
+    .register(`${import.meta.env.BASE_URL}sw.js`)
+    .then((registration) => {
+      if (registration.waiting && navigator.serviceWorker.controller) {
+        promptUpdate(registration.waiting);
+      }
+
+      registration.addEventListener('updatefound', () => {
+        const worker = registration.installing;
+        worker?.addEventListener('statechange', () => {
+          if (worker.state !== 'installed' || disposed) {
+            return;
+          }
+          if (navigator.serviceWorker.controller) {
+            promptUpdate(worker);
+          } else {
+            handlers.onOfflineReady();
+          }
+        });
+      });
+
+      if (!disposed) {
+        timer = window.setInterval(() => {
+          registration.update().catch(() => {
+            // Offline; try again on the next tick.
+          });
+        }, UPDATE_CHECK_MS);
+      }
+    })
+    .catch(() => {
+      // Without a service worker the app still works online.
+    });
+
+  return () => {
+    disposed = true;
+    window.clearInterval(timer);
+    navigator.serviceWorker.removeEventListener('controllerchange', handleControllerChange);
+  };
+};
@@ -0,0 +1,94 @@
+import { shuffle } from './random';
+import type { VocabItem } from './vocab';
+
+export type QuizDirection = 'en-zh' | 'zh-en';
+
+export type QuizQuestion = {
+  item: VocabItem;
+  prompt: string;
+  options: string[];
+  answerIndex: number;
+};
+
+export type QuizResult = {
+  question: QuizQuestion;
+  choiceIndex: number;
+  correct: boolean;
+};
+
+export const QUIZ_OPTION_COUNT = 4;
+
+export const promptFor = (item: VocabItem, direction: QuizDirection) =>
+  direction === 'en-zh' ? item.english : item.chinese;
+
+export const answerFor = (item: VocabItem, direction: QuizDirection) =>
+  direction === 'en-zh' ? item.chinese : item.english;
+
+export const groupByPos = (items: VocabItem[]) =>
+  items.reduce((groups, item) => {
+    const group = groups.get(item.pos) ?? [];
+    group.push(item);
+    groups.set(item.pos, group);
+    return groups;
+  }, new Map<string, VocabItem[]>());
+
+const pickDistractors = (
+  target: VocabItem,
+  pool: VocabItem[],
+  direction: QuizDirection,
+  count: number,
+  taken: Set<string>
+) => {
+  const picked: string[] = [];
+  for (const candidate of shuffle(pool)) {
+    if (picked.length >= count) {
+      break;
+    }
+    const text = answerFor(candidate, direction);
+    if (candidate.englishKey === target.englishKey || !text || taken.has(text)) {
+      continue;
+    }
+    taken.add(text);
+    picked.push(text);
+  }
+  return picked;
+};
+
+export const buildQuizQuestion = (
+  target: VocabItem,
+  items: VocabItem[],
+  direction: QuizDirection,
+  posGroups = groupByPos(items)
+): QuizQuestion => {
+  const answer = answerFor(target, direction);
+  const taken = new Set([answer]);
+  const wanted = QUIZ_OPTION_COUNT - 1;
+  const samePos = posGroups.get(target.pos) ?? [];
+  const distractors = pickDistractors(target, samePos, direction, wanted, taken);
+
+  if (distractors.length < wanted) {
+    const remaining = wanted - distractors.length;
+    distractors.push(...pickDistractors(target, items, direction, remaining, taken));
+  }
+
+  const options = shuffle([answer, ...distractors]);
+
+  return {
+    item: target,
+    prompt: promptFor(target, direction),
+    options,
+    answerIndex: options.indexOf(answer),
+  };
+};
+
+export const buildQuizSession = (
+  targets: VocabItem[],
+  items: VocabItem[],
+  direction: QuizDirection
+) => {
+  const posGroups = groupByPos(items);
+  return targets.map((target) => buildQuizQuestion(target, items, direction, posGroups));
+};
+
+export const pickQuizTargets = (items: VocabItem[], length: number) =>
+  shuffle(items).slice(0, length);
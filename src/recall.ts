@@ -0,0 +1,29 @@
+export type RecallMode = 'off' | 'english-first' | 'chinese-first';
+
+// 0 shows only the prompt side, 1 adds the TOEIC meaning, 2 adds dictionary details.
+export type RevealStage = 0 | 1 | 2;
+
+export type RevealState = {
+  key: string;
+  stage: RevealStage;
+  elapsedMs: number | null;
+};
+
+export const DEFAULT_RECALL_MODE: RecallMode = 'off';
+
+export const FULLY_REVEALED: RevealStage = 2;
+
+export const recallModeLabels: Record<RecallMode, string> = {
+  off: 'Show everything',
+  'english-first': 'English first, reveal meaning',
+  'chinese-first': 'Chinese first, reveal English',
+};
+
+export const revealLabel = (mode: RecallMode, stage: RevealStage) =>
+  stage === 0
+    ? mode === 'chinese-first'
+      ? 'Show English'
+      : 'Show Meaning'
+    : 'Show Dictionary Details';
+
+export const formatRevealTime = (elapsedMs: number) => `${(elapsedMs / 1000).toFixed(1)}s`;
@@ -0,0 +1,61 @@
+// Template for dist/sw.js; the build fills in the version and precache list (see vite.config.ts).
+const CACHE_PREFIX = 'learn-toeic-';
+const CACHE_NAME = `${CACHE_PREFIX}${__CACHE_VERSION__}`;
+const PRECACHE_URLS = __PRECACHE_URLS__;
+const APP_SHELL_URL = './';
+
+self.addEventListener('install', (event) => {
+  event.waitUntil(
+    caches
+      .open(CACHE_NAME)
+      .then((cache) =>
+        cache.addAll(PRECACHE_URLS.map((url) => new Request(url, { cache: 'reload' })))
+      )
+  );
+});
+
+self.addEventListener('activate', (event) => {
+  event.waitUntil(
+    caches
+      .keys()
+      .then((keys) =>
+        Promise.all(
+          keys
+            .filter((key) => key.startsWith(CACHE_PREFIX) && key !== CACHE_NAME)
+            .map((key) => caches.delete(key))
+        )
+      )
+      .then(() => self.clients.claim())
+  );
+});
+
+self.addEventListener('message', (event) => {
+  if (event.data && event.data.type === 'SKIP_WAITING') {
+    self.skipWaiting();
+  }
+});
+
+self.addEventListener('fetch', (event) => {
+  const { request } = event;
+  if (request.method !== 'GET' || new URL(request.url).origin !== self.location.origin) {
+    return;
+  }
+
+  event.respondWith(
+    caches.open(CACHE_NAME).then(async (cache) => {
+      const cached = await cache.match(request, { ignoreSearch: true });
+      if (cached) {
+        return cached;
+      }
+      try {
+        return await fetch(request);
+      } catch (error) {
+        const shell = request.mode === 'navigate' ? await cache.match(APP_SHELL_URL) : undefined;
+        if (shell) {
+          return shell;
+        }
+        throw error;
+      }
+    })
+  );
+});
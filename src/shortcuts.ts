@@ -0,0 +1,144 @@
+import type { ReviewGrade } from './srs';
+
+export type ShortcutAction =
+  | 'next'
+  | 'speak-english'
+  | 'speak-chinese'
+  | 'speak-example'
+  | 'toggle-auto'
+  | 'pause-auto'
+  | 'auto-back'
+  | 'grade-again'
+  | 'grade-hard'
+  | 'grade-good'
+  | 'grade-easy'
+  | 'focus-lookup'
+  | 'show-shortcuts';
+
+export type ShortcutBindings = Record<ShortcutAction, string>;
+
+export const SPACE_KEY = 'Space';
+
+export const DEFAULT_SHORTCUTS: ShortcutBindings = {
+  next: SPACE_KEY,
+  'speak-english': 'e',
+  'speak-chinese': 'c',
+  'speak-example': 'x',
+  'toggle-auto': 'a',
+  'pause-auto': 'p',
+  'auto-back': 'b',
+  'grade-again': '1',
+  'grade-hard': '2',
+  'grade-good': '3',
+  'grade-easy': '4',
+  'focus-lookup': '/',
+  'show-shortcuts': '?',
+};
+
+export const shortcutLabels: Record<ShortcutAction, string> = {
+  next: 'Reveal / next card',
+  'speak-english': 'Read English',
+  'speak-chinese': 'Read Chinese',
+  'speak-example': 'Read example sentence',
+  'toggle-auto': 'Start / stop auto mode',
+  'pause-auto': 'Pause / resume auto mode',
+  'auto-back': 'Auto mode: previous card',
+  'grade-again': 'Grade: Again',
+  'grade-hard': 'Grade: Hard',
+  'grade-good': 'Grade: Good',
+  'grade-easy': 'Grade: Easy',
+  'focus-lookup': 'Focus dictionary lookup',
+  'show-shortcuts': 'Show this list',
+};
+
+export const gradeShortcuts: Record<ReviewGrade, ShortcutAction> = {
+  again: 'grade-again',
+  hard: 'grade-hard',
+  good: 'grade-good',
+  easy: 'grade-easy',
+};
+
+// Keys the browser or the overlay itself relies on; binding them would trap the user.
+const RESERVED_KEYS = new Set(['Escape', 'Tab', 'Enter']);
+
+const TEXT_INPUT_TYPES = new Set([
+  'text',
+  'search',
+  'email',
+  'url',
+  'tel',
+  'password',
+  'number',
+]);
+
+export const keyFromEvent = (event: KeyboardEvent) => {
+  if (event.ctrlKey || event.metaKey || event.altKey) {
+    return null;
+  }
+  if (event.key === ' ') {
+    return SPACE_KEY;
+  }
+  return event.key.length === 1 ? event.key.toLowerCase() : event.key;
+};
+
+export const isBindableKey = (key: string) =>
+  !RESERVED_KEYS.has(key) && !['Shift', 'Control', 'Alt', 'Meta', 'CapsLock'].includes(key);
+
+export const formatKey = (key: string) => (key.length === 1 ? key.toUpperCase() : key);
+
+// Keys that natively click a focused control; a shortcut on the same press would fire twice.
+const ACTIVATION_KEYS = new Set([SPACE_KEY, 'Enter']);
+
+const ACTIVATABLE_SELECTOR =
+  'button, a[href], summary, [role="button"], [role="checkbox"], [role="radio"], [role="switch"], [role="tab"]';
+
+// Typing in a field, or pressing Space on a focused control, belongs to that element.
+export const isEditableTarget = (target: EventTarget | null, key: string) => {
+  if (!(target instanceof HTMLElement)) {
+    return false;
+  }
+  if (
+    target.isContentEditable ||
+    target instanceof HTMLTextAreaElement ||
+    target instanceof HTMLSelectElement
+  ) {
+    return true;
+  }
+  if (target instanceof HTMLInputElement) {
+    return TEXT_INPUT_TYPES.has(target.type) || ACTIVATION_KEYS.has(key);
+  }
+  return ACTIVATION_KEYS.has(key) && target.closest(ACTIVATABLE_SELECTOR) !== null;
+};
+
+export const findShortcut = (bindings: ShortcutBindings, key: string) =>
+  (Object.keys(bindings) as ShortcutAction[]).find((action) => bindings[action] === key);
+
+export const normalizeShortcuts = (stored: Partial<ShortcutBindings> | undefined) => {
+  const bindings = { ...DEFAULT_SHORTCUTS };
+  const used = new Set<string>();
+  (Object.keys(DEFAULT_SHORTCUTS) as ShortcutAction[]).forEach((action) => {
+    const key = stored?.[action];
+    if (typeof key === 'string' && isBindableKey(key) && !used.has(key)) {
+      bindings[action] = key;
+    }
+    used.add(bindings[action]);
+  });
+  return bindings;
+};
+
+// Assigning a key that is already taken swaps the two bindings so nothing is left unbound.
+export const rebindShortcut = (
+  bindings: ShortcutBindings,
+  action: ShortcutAction,
+  key: string
+): ShortcutBindings => {
+  const previous = findShortcut(bindings, key);
+  if (previous === action) {
+    return bindings;
+  }
+  return {
+    ...bindings,
+    ...(previous ? { [previous]: bindings[action] } : {}),
+    [action]: key,
+  };
+};
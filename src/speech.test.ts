@@ -0,0 +1,193 @@
+import { describe, expect, it } from 'vitest';
+import {
+  boundaryRange,
+  createSpeechService,
+  resolveVoiceURI,
+  voicesFor,
+  type SpeechBackend,
+  type UtteranceCallbacks,
+  type UtteranceRequest,
+  type VoiceOption,
+} from './speech';
+
+const VOICES: VoiceOption[] = [
+  { name: 'Samantha', lang: 'en-US', voiceURI: 'samantha' },
+  { name: 'Daniel', lang: 'en-GB', voiceURI: 'daniel' },
+  { name: 'Meijia', lang: 'zh-TW', voiceURI: 'meijia' },
+  { name: 'Rocko (Chinese (Taiwan))', lang: 'zh_TW', voiceURI: 'rocko' },
+  { name: 'Tingting', lang: 'zh-CN', voiceURI: 'tingting' },
+  { name: 'Kyoko', lang: 'ja-JP', voiceURI: 'kyoko' },
+];
+
+type FakeBackend = SpeechBackend & {
+  spoken: UtteranceRequest[];
+  callbacks: UtteranceCallbacks[];
+  cancels: number;
+  finish: () => void;
+  boundary: (charIndex: number, charLength: number) => void;
+};
+
+// Utterances stay pending until the test finishes them, like a real engine mid-sentence.
+const createFakeBackend = (voices = VOICES): FakeBackend => {
+  const backend: FakeBackend = {
+    spoken: [],
+    callbacks: [],
+    cancels: 0,
+    getVoices: () => voices,
+    speak: (utterance, handlers) => {
+      backend.spoken.push(utterance);
+      backend.callbacks.push(handlers);
+    },
+    cancel: () => {
+      backend.cancels += 1;
+    },
+    onVoicesChanged: () => () => {},
+    finish: () => latest()?.onEnd(),
+    boundary: (charIndex, charLength) => latest()?.onBoundary(charIndex, charLength),
+  };
+  const latest = (): UtteranceCallbacks | undefined =>
+    backend.callbacks[backend.callbacks.length - 1];
+  return backend;
+};
+
+describe('createSpeechService', () => {
+  it('speaks queued utterances one at a time in order', async () => {
+    const backend = createFakeBackend();
+    const service = createSpeechService(backend);
+    const done: string[] = [];
+
+    const first = service.speak('invoice', { lang: 'en-US' }).then(() => done.push('invoice'));
+    const second = service.speak('發票', { lang: 'zh-TW' }).then(() => done.push('發票'));
+    expect(backend.spoken.map((utterance) => utterance.text)).toEqual(['invoice']);
+
+    backend.finish();
+    await first;
+    expect(backend.spoken.map((utterance) => utterance.text)).toEqual(['invoice', '發票']);
+
+    backend.finish();
+    await second;
+    expect(done).toEqual(['invoice', '發票']);
+  });
+
+  it('clears pending items on cancel and resolves every waiting caller', async () => {
+    const backend = createFakeBackend();
+    const service = createSpeechService(backend);
+
+    const pending = [
+      service.speak('invoice', { lang: 'en-US' }),
+      service.speak('receipt', { lang: 'en-US' }),
+      service.speak('refund', { lang: 'en-US' }),
+    ];
+    service.cancel();
+    await Promise.all(pending);
+
+    expect(backend.cancels).toBe(1);
+    backend.finish();
+    expect(backend.spoken.map((utterance) => utterance.text)).toEqual(['invoice']);
+
+    service.speak('budget', { lang: 'en-US' });
+    expect(backend.spoken.map((utterance) => utterance.text)).toEqual(['invoice', 'budget']);
+  });
+
+  it('ignores a late end event from a cancelled utterance', () => {
+    const backend = createFakeBackend();
+    const service = createSpeechService(backend);
+
+    service.speak('invoice', { lang: 'en-US' });
+    service.cancel();
+    service.speak('receipt', { lang: 'en-US' });
+    service.speak('refund', { lang: 'en-US' });
+    backend.callbacks[0].onEnd();
+
+    expect(backend.spoken.map((utterance) => utterance.text)).toEqual(['invoice', 'receipt']);
+  });
+
+  it('falls back to a default voice when the saved one has disappeared', () => {
+    const backend = createFakeBackend(VOICES.filter((voice) => voice.voiceURI !== 'samantha'));
+    const service = createSpeechService(backend);
+
+    service.speak('invoice', { lang: 'en-US', voiceURI: 'samantha', rate: 0.8 });
+    expect(backend.spoken[0]).toEqual({
+      text: 'invoice',
+      lang: 'en-US',
+      rate: 0.8,
+      voiceURI: 'daniel',
+    });
+  });
+
+  it('reports spoken word ranges only for the active utterance', () => {
+    const backend = createFakeBackend();
+    const service = createSpeechService(backend);
+    const ranges: unknown[] = [];
+
+    service.speak('Submit the invoice today.', {
+      lang: 'en-US',
+      onBoundary: (range) => ranges.push(range),
+    });
+    backend.boundary(11, 0);
+    service.cancel();
+    backend.boundary(19, 5);
+
+    expect(ranges).toEqual([{ text: 'Submit the invoice today.', start: 11, end: 18 }]);
+  });
+
+  it('resolves immediately without a backend', async () => {
+    const service = createSpeechService(null);
+    expect(service.supported).toBe(false);
+    await expect(service.speak('invoice', { lang: 'en-US' })).resolves.toBeUndefined();
+    expect(service.getVoices()).toEqual([]);
+  });
+});
+
+describe('resolveVoiceURI', () => {
+  it('keeps a saved voice that is still installed', () => {
+    expect(resolveVoiceURI(VOICES, 'en-US', 'daniel')).toBe('daniel');
+  });
+
+  it('falls back to the best match for the language when the saved voice is gone', () => {
+    expect(resolveVoiceURI(VOICES, 'en-US', 'alex')).toBe('samantha');
+    expect(resolveVoiceURI(VOICES, 'zh-TW', '')).toBe('rocko');
+  });
+
+  it('rejects a saved voice from another language', () => {
+    expect(resolveVoiceURI(VOICES, 'zh-TW', 'samantha')).toBe('rocko');
+  });
+
+  it('returns an empty voice when nothing matches the language', () => {
+    expect(resolveVoiceURI(VOICES, 'ko-KR', 'samantha')).toBe('');
+  });
+});
+
+describe('voicesFor', () => {
+  it('keeps voices for the language, exact region first', () => {
+    expect(voicesFor(VOICES, 'zh-TW').map((voice) => voice.voiceURI)).toEqual([
+      'meijia',
+      'rocko',
+      'tingting',
+    ]);
+    expect(voicesFor(VOICES, 'en_GB').map((voice) => voice.voiceURI)).toEqual([
+      'daniel',
+      'samantha',
+    ]);
+  });
+
+  it('returns nothing for a language without voices', () => {
+    expect(voicesFor(VOICES, 'fr-FR')).toEqual([]);
+  });
+});
+
+describe('boundaryRange', () => {
+  const sentence = 'Please file the expense report.';
+
+  it('uses the reported character length', () => {
+    expect(boundaryRange(sentence, 16, 7)).toEqual({ text: sentence, start: 16, end: 23 });
+  });
+
+  it('falls back to the next run of non-space characters when the length is missing', () => {
+    expect(boundaryRange(sentence, 24, 0)).toEqual({ text: sentence, start: 24, end: 31 });
+  });
+
+  it('clamps a range that runs past the end of the text', () => {
+    expect(boundaryRange(sentence, 24, 40)).toEqual({ text: sentence, start: 24, end: 31 });
+  });
+});
@@ -0,0 +1,192 @@
+export type VoiceOption = {
+  name: string;
+  lang: string;
+  voiceURI: string;
+};
+
+export type SpokenRange = {
+  text: string;
+  start: number;
+  end: number;
+};
+
+export type UtteranceRequest = {
+  text: string;
+  lang: string;
+  rate: number;
+  voiceURI: string;
+};
+
+export type UtteranceCallbacks = {
+  onBoundary: (charIndex: number, charLength: number) => void;
+  onEnd: () => void;
+};
+
+// The slice of speechSynthesis the app relies on; a scripted fake can stand in for tests.
+export type SpeechBackend = {
+  getVoices: () => VoiceOption[];
+  speak: (utterance: UtteranceRequest, callbacks: UtteranceCallbacks) => void;
+  cancel: () => void;
+  onVoicesChanged: (listener: () => void) => () => void;
+};
+
+export type SpeakOptions = {
+  lang: string;
+  voiceURI?: string;
+  rate?: number;
+  onBoundary?: (range: SpokenRange) => void;
+};
+
+export type SpeechService = {
+  supported: boolean;
+  getVoices: () => VoiceOption[];
+  speak: (text: string, options: SpeakOptions) => Promise<void>;
+  cancel: () => void;
+  onVoicesChanged: (listener: () => void) => () => void;
+};
+
+type QueuedUtterance = {
+  text: string;
+  options: SpeakOptions;
+  resolve: () => void;
+};
+
+const PREFERRED_VOICE_NAMES: Record<string, string> = {
+  'zh-tw': 'rocko',
+};
+
+const normalizeLang = (lang: string) => lang.replace(/_/g, '-').toLowerCase();
+
+const primaryLang = (lang: string) => normalizeLang(lang).split('-')[0];
+
+// Android reports tags like en_US, so compare on the normalized primary subtag.
+export const voicesFor = (voices: VoiceOption[], lang: string) => {
+  const wanted = normalizeLang(lang);
+  const matching = voices.filter((voice) => primaryLang(voice.lang) === primaryLang(lang));
+  return [
+    ...matching.filter((voice) => normalizeLang(voice.lang) === wanted),
+    ...matching.filter((voice) => normalizeLang(voice.lang) !== wanted),
+  ];
+};
+
+export const defaultVoiceURI = (voices: VoiceOption[], lang: string) => {
+  const candidates = voicesFor(voices, lang);
+  const preferredName = PREFERRED_VOICE_NAMES[normalizeLang(lang)];
+  const preferred = preferredName
+    ? candidates.find(
+        (voice) =>
+          voice.name.toLowerCase().includes(preferredName) &&
+          normalizeLang(voice.lang) === normalizeLang(lang)
+      )
+    : undefined;
+  return preferred?.voiceURI ?? candidates[0]?.voiceURI ?? '';
+};
+
+// A saved voice can vanish when a profile moves to another device or the OS drops it.
+export const resolveVoiceURI = (voices: VoiceOption[], lang: string, preferred: string) =>
+  voicesFor(voices, lang).some((voice) => voice.voiceURI === preferred)
+    ? preferred
+    : defaultVoiceURI(voices, lang);
+
+// Some engines omit charLength, so fall back to the run of non-space characters.
+export const boundaryRange = (text: string, charIndex: number, charLength: number) => {
+  const word = text.slice(charIndex).match(/^\S+/)?.[0] ?? '';
+  const length = charLength > 0 ? charLength : word.length;
+  return { text, start: charIndex, end: Math.min(text.length, charIndex + length) };
+};
+
+export const createBrowserSpeechBackend = (): SpeechBackend | null => {
+  if (typeof window === 'undefined' || !('speechSynthesis' in window)) {
+    return null;
+  }
+
+  const synth = window.speechSynthesis;
+  return {
+    getVoices: () =>
+      synth.getVoices().map(({ name, lang, voiceURI }) => ({ name, lang, voiceURI })),
+    speak: ({ text, lang, rate, voiceURI }, { onBoundary, onEnd }) => {
+      const utterance = new SpeechSynthesisUtterance(text);
+      utterance.lang = lang;
+      utterance.rate = rate;
+      const voice = synth.getVoices().find((candidate) => candidate.voiceURI === voiceURI);
+      if (voice) {
+        utterance.voice = voice;
+      }
+      utterance.onboundary = (event) => {
+        if (event.name !== 'sentence') {
+          onBoundary(event.charIndex, event.charLength ?? 0);
+        }
+      };
+      utterance.onend = () => onEnd();
+      utterance.onerror = () => onEnd();
+      synth.speak(utterance);
+    },
+    cancel: () => synth.cancel(),
+    onVoicesChanged: (listener) => {
+      synth.addEventListener('voiceschanged', listener);
+      return () => synth.removeEventListener('voiceschanged', listener);
+    },
+  };
+};
+
+export const createSpeechService = (backend: SpeechBackend | null): SpeechService => {
+  const queue: QueuedUtterance[] = [];
+  let active: QueuedUtterance | null = null;
+
+  const playNext = () => {
+    if (!backend || active) {
+      return;
+    }
+    const entry = queue.shift();
+    if (!entry) {
+      return;
+    }
+
+    active = entry;
+    const { text, options } = entry;
+    const voiceURI = resolveVoiceURI(backend.getVoices(), options.lang, options.voiceURI ?? '');
+    backend.speak(
+      { text, lang: options.lang, rate: options.rate ?? 1, voiceURI },
+      {
+        onBoundary: (charIndex, charLength) => {
+          if (active === entry) {
+            options.onBoundary?.(boundaryRange(text, charIndex, charLength));
+          }
+        },
+        // Cancelled utterances still fire end events later; only the active one advances.
+        onEnd: () => {
+          if (active !== entry) {
+            return;
+          }
+          active = null;
+          entry.resolve();
+          playNext();
+        },
+      }
+    );
+  };
+
+  const cancel = () => {
+    const pending = active ? [active, ...queue] : [...queue];
+    queue.length = 0;
+    active = null;
+    backend?.cancel();
+    pending.forEach((entry) => entry.resolve());
+  };
+
+  return {
+    supported: backend !== null,
+    getVoices: () => backend?.getVoices() ?? [],
+    speak: (text, options) => {
+      if (!backend) {
+        return Promise.resolve();
+      }
+      return new Promise<void>((resolve) => {
+        queue.push({ text, options, resolve });
+        playNext();
+      });
+    },
+    cancel,
+    onVoicesChanged: (listener) => backend?.onVoicesChanged(listener) ?? (() => {}),
+  };
+};
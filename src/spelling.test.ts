@@ -0,0 +1,40 @@
+import { describe, expect, it } from 'vitest';
+import { KNOWN_CONFUSABLES } from './families';
+import { buildKnownWords, gradeSpelling } from './spelling';
+
+const knownWords = buildKnownWords([
+  'employee',
+  'employer',
+  'accommodate',
+  'schedule',
+  ...KNOWN_CONFUSABLES.flat(),
+]);
+
+describe('gradeSpelling', () => {
+  it.each([
+    ['affect', 'effect'],
+    ['personnel', 'personal'],
+    ['adopt', 'adapt'],
+    ['principal', 'principle'],
+    ['employee', 'employer'],
+    ['advise', 'advice'],
+  ])('grades %s typed for %s as a different word', (input, target) => {
+    const result = gradeSpelling(input, target, knownWords);
+    expect(result.verdict).toBe('wrong');
+    expect(result.otherWord).toBe(true);
+  });
+
+  it('still forgives a near miss that is not a known word', () => {
+    const result = gradeSpelling('acommodate', 'accommodate', knownWords);
+    expect(result.verdict).toBe('typo');
+    expect(result.otherWord).toBe(false);
+  });
+
+  it('ignores case, spacing and punctuation before comparing', () => {
+    expect(gradeSpelling('  Schedule. ', 'schedule', knownWords).verdict).toBe('exact');
+  });
+
+  it('falls back to distance alone without a word list', () => {
+    expect(gradeSpelling('affect', 'effect').verdict).toBe('typo');
+  });
+});
@@ -0,0 +1,118 @@
+import { normalizeLookup } from './vocab';
+
+export type SpellingVerdict = 'exact' | 'typo' | 'wrong';
+
+export type DiffOp =
+  | { type: 'match'; char: string }
+  | { type: 'substitute'; expected: string; actual: string }
+  | { type: 'missing'; expected: string }
+  | { type: 'extra'; actual: string };
+
+export type SpellingResult = {
+  verdict: SpellingVerdict;
+  distance: number;
+  expected: string;
+  actual: string;
+  otherWord: boolean;
+  diff: DiffOp[];
+};
+
+export const normalizeAnswer = (value: string) =>
+  normalizeLookup(value.replace(/\s*（[^）]*）\s*$/, '')).replace(/[.,!?;:]+$/, '');
+
+export const typoTolerance = (length: number) => {
+  if (length <= 3) {
+    return 0;
+  }
+
+  return length <= 7 ? 1 : 2;
+};
+
+const buildDistanceTable = (expected: string, actual: string) => {
+  const rows = expected.length + 1;
+  const cols = actual.length + 1;
+  const table = Array.from({ length: rows }, () => new Array<number>(cols).fill(0));
+
+  for (let row = 0; row < rows; row += 1) {
+    table[row][0] = row;
+  }
+  for (let col = 0; col < cols; col += 1) {
+    table[0][col] = col;
+  }
+
+  for (let row = 1; row < rows; row += 1) {
+    for (let col = 1; col < cols; col += 1) {
+      const cost = expected[row - 1] === actual[col - 1] ? 0 : 1;
+      table[row][col] = Math.min(
+        table[row - 1][col] + 1,
+        table[row][col - 1] + 1,
+        table[row - 1][col - 1] + cost
+      );
+    }
+  }
+
+  return table;
+};
+
+export const editDistance = (expected: string, actual: string) =>
+  buildDistanceTable(expected, actual)[expected.length][actual.length];
+
+export const diffLetters = (expected: string, actual: string): DiffOp[] => {
+  const table = buildDistanceTable(expected, actual);
+  const ops: DiffOp[] = [];
+  let row = expected.length;
+  let col = actual.length;
+
+  while (row > 0 || col > 0) {
+    const diagonal = row > 0 && col > 0 ? table[row - 1][col - 1] : Infinity;
+    const sameLetter = row > 0 && col > 0 && expected[row - 1] === actual[col - 1];
+
+    if (sameLetter && table[row][col] === diagonal) {
+      ops.push({ type: 'match', char: expected[row - 1] });
+      row -= 1;
+      col -= 1;
+    } else if (table[row][col] === diagonal + 1) {
+      ops.push({ type: 'substitute', expected: expected[row - 1], actual: actual[col - 1] });
+      row -= 1;
+      col -= 1;
+    } else if (row > 0 && table[row][col] === table[row - 1][col] + 1) {
+      ops.push({ type: 'missing', expected: expected[row - 1] });
+      row -= 1;
+    } else {
+      ops.push({ type: 'extra', actual: actual[col - 1] });
+      col -= 1;
+    }
+  }
+
+  return ops.reverse();
+};
+
+export const buildKnownWords = (words: string[]) =>
+  new Set(words.map(normalizeAnswer).filter(Boolean));
+
+// Typing another real word (affect for effect) is a confusion, not a slip, whatever the distance.
+export const gradeSpelling = (
+  input: string,
+  target: string,
+  knownWords: ReadonlySet<string> = new Set()
+): SpellingResult => {
+  const expected = normalizeAnswer(target);
+  const actual = normalizeAnswer(input);
+  const distance = editDistance(expected, actual);
+  const otherWord = distance > 0 && knownWords.has(actual);
+  const verdict: SpellingVerdict =
+    distance === 0
+      ? 'exact'
+      : !otherWord && distance <= typoTolerance(expected.length)
+        ? 'typo'
+        : 'wrong';
+
+  return {
+    verdict,
+    distance,
+    expected,
+    actual,
+    otherWord,
+    diff: verdict === 'exact' ? [] : diffLetters(expected, actual),
+  };
+};
@@ -0,0 +1,130 @@
+import { describe, expect, it } from 'vitest';
+import {
+  SLOW_RECALL_MS,
+  buildStudyQueue,
+  gradeCard,
+  newWordsRemaining,
+  type CardSchedule,
+  type ReviewGrade,
+} from './srs';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+const NOW = new Date(2026, 9, 19, 9, 0).getTime();
+
+const card = (overrides: Partial<CardSchedule>): CardSchedule => ({
+  ease: 2.5,
+  interval: 0,
+  due: NOW,
+  lapses: 0,
+  reps: 0,
+  lastReview: NOW - DAY_MS,
+  ...overrides,
+});
+
+const review = (grades: ReviewGrade[]) =>
+  grades.reduce<CardSchedule | undefined>(
+    (current, grade) => gradeCard(current, grade, NOW),
+    undefined
+  );
+
+describe('gradeCard', () => {
+  it('steps a new card through 1, 3 and ease-multiplied days on good', () => {
+    expect(review(['good'])?.interval).toBe(1);
+    expect(review(['good', 'good'])?.interval).toBe(3);
+    expect(review(['good', 'good', 'good'])?.interval).toBe(8);
+  });
+
+  it('starts an easy new card at four days with a higher ease', () => {
+    const next = gradeCard(undefined, 'easy', NOW);
+    expect(next.interval).toBe(4);
+    expect(next.ease).toBeCloseTo(2.65);
+    expect(next.due).toBe(NOW + 4 * DAY_MS);
+  });
+
+  it('grows a hard review by at least a day and lowers the ease', () => {
+    const next = gradeCard(card({ interval: 10, reps: 3 }), 'hard', NOW);
+    expect(next.interval).toBe(12);
+    expect(next.ease).toBeCloseTo(2.35);
+    expect(gradeCard(card({ interval: 2, reps: 3 }), 'hard', NOW).interval).toBe(3);
+  });
+
+  it('relearns a forgotten card in ten minutes and counts the lapse', () => {
+    const next = gradeCard(card({ interval: 8, reps: 3 }), 'again', NOW);
+    expect(next).toMatchObject({ interval: 0, reps: 0, lapses: 1, due: NOW + 10 * 60 * 1000 });
+    expect(next.ease).toBeCloseTo(2.3);
+    expect(gradeCard(undefined, 'again', NOW).lapses).toBe(0);
+  });
+
+  it('never drops the ease below 1.3', () => {
+    expect(gradeCard(card({ ease: 1.35, reps: 2 }), 'again', NOW).ease).toBe(1.3);
+    expect(gradeCard(card({ ease: 1.3, interval: 5, reps: 2 }), 'hard', NOW).ease).toBe(1.3);
+  });
+
+  it('shortens a good interval when recall was slow', () => {
+    const mature = card({ interval: 10, reps: 3 });
+    const slow = gradeCard(mature, 'good', NOW, { revealMs: SLOW_RECALL_MS + 1 });
+    const quick = gradeCard(mature, 'good', NOW, { revealMs: SLOW_RECALL_MS });
+    expect(quick.interval).toBe(25);
+    expect(slow.interval).toBe(20);
+  });
+
+  it('keeps the ease and trims the interval for a slow easy answer', () => {
+    const mature = card({ interval: 10, reps: 3 });
+    const slow = gradeCard(mature, 'easy', NOW, { revealMs: 12000 });
+    const quick = gradeCard(mature, 'easy', NOW, { revealMs: 2000 });
+    expect(quick).toMatchObject({ interval: 33 });
+    expect(quick.ease).toBeCloseTo(2.65);
+    expect(slow).toMatchObject({ interval: 26, ease: 2.5 });
+  });
+
+  it('never lets hesitation shrink an interval below one day of growth', () => {
+    const next = gradeCard(card({ ease: 1.3, interval: 3, reps: 2 }), 'good', NOW, {
+      revealMs: 20000,
+    });
+    expect(next.interval).toBe(4);
+  });
+
+  it('ignores hesitation on the learning steps', () => {
+    expect(gradeCard(undefined, 'good', NOW, { revealMs: 20000 }).interval).toBe(1);
+    const second = gradeCard(card({ interval: 1, reps: 1 }), 'good', NOW, { revealMs: 20000 });
+    expect(second.interval).toBe(3);
+  });
+});
+
+describe('buildStudyQueue', () => {
+  it('puts due cards first, oldest due first, then today\'s new words', () => {
+    const schedules = {
+      later: card({ due: NOW - DAY_MS }),
+      sooner: card({ due: NOW - 2 * DAY_MS }),
+      ahead: card({ due: NOW + DAY_MS }),
+    };
+    const queue = buildStudyQueue(['later', 'fresh', 'ahead', 'sooner', 'other'], schedules, {
+      now: NOW,
+      newPerDay: 1,
+      newLog: { day: '', count: 0 },
+      shuffleNew: false,
+    });
+    expect(queue).toEqual([
+      { key: 'sooner', kind: 'due' },
+      { key: 'later', kind: 'due' },
+      { key: 'fresh', kind: 'new' },
+    ]);
+  });
+
+  it('offers cards ahead of schedule once nothing is due', () => {
+    const queue = buildStudyQueue(['ahead'], { ahead: card({ due: NOW + DAY_MS }) }, {
+      now: NOW,
+      newPerDay: 20,
+      newLog: { day: '', count: 0 },
+    });
+    expect(queue).toEqual([{ key: 'ahead', kind: 'ahead' }]);
+  });
+});
+
+describe('newWordsRemaining', () => {
+  it('resets the daily allowance on a new day', () => {
+    expect(newWordsRemaining({ day: '2026-10-19', count: 15 }, 20, NOW)).toBe(5);
+    expect(newWordsRemaining({ day: '2026-10-18', count: 15 }, 20, NOW)).toBe(20);
+    expect(newWordsRemaining({ day: '2026-10-19', count: 25 }, 20, NOW)).toBe(0);
+  });
+});
@@ -0,0 +1,185 @@
+import { shuffle } from './random';
+
+export type ReviewGrade = 'again' | 'hard' | 'good' | 'easy';
+
+export type CardSchedule = {
+  ease: number;
+  interval: number;
+  due: number;
+  lapses: number;
+  reps: number;
+  lastReview: number;
+};
+
+export type ScheduleMap = Record<string, CardSchedule>;
+
+export type NewWordLog = {
+  day: string;
+  count: number;
+};
+
+export type QueueKind = 'due' | 'new' | 'ahead';
+
+export type QueueEntry = {
+  key: string;
+  kind: QueueKind;
+};
+
+export type QueueOptions = {
+  now: number;
+  newPerDay: number;
+  newLog: NewWordLog;
+  shuffleNew?: boolean;
+};
+
+export type GradeOptions = {
+  revealMs?: number;
+};
+
+export const REVIEW_GRADES: ReviewGrade[] = ['again', 'hard', 'good', 'easy'];
+
+export const DEFAULT_NEW_PER_DAY = 20;
+export const SLOW_RECALL_MS = 8000;
+
+const MINUTE_MS = 60 * 1000;
+const DAY_MS = 24 * 60 * MINUTE_MS;
+const STARTING_EASE = 2.5;
+const MIN_EASE = 1.3;
+const RELEARN_DELAY_MS = 10 * MINUTE_MS;
+const HESITATION_FACTOR = 0.8;
+
+export const toDayKey = (timestamp: number) => {
+  const date = new Date(timestamp);
+  const month = String(date.getMonth() + 1).padStart(2, '0');
+  const day = String(date.getDate()).padStart(2, '0');
+  return `${date.getFullYear()}-${month}-${day}`;
+};
+
+export const newWordsRemaining = (log: NewWordLog, newPerDay: number, now: number) => {
+  const used = log.day === toDayKey(now) ? log.count : 0;
+  return Math.max(0, newPerDay - used);
+};
+
+export const recordNewWord = (log: NewWordLog, now: number): NewWordLog => {
+  const day = toDayKey(now);
+  return { day, count: log.day === day ? log.count + 1 : 1 };
+};
+
+export const gradeCard = (
+  card: CardSchedule | undefined,
+  grade: ReviewGrade,
+  now: number,
+  { revealMs }: GradeOptions = {}
+): CardSchedule => {
+  const ease = card?.ease ?? STARTING_EASE;
+  const interval = card?.interval ?? 0;
+  const reps = card?.reps ?? 0;
+  const lapses = card?.lapses ?? 0;
+
+  if (grade === 'again') {
+    return {
+      ease: Math.max(MIN_EASE, ease - 0.2),
+      interval: 0,
+      due: now + RELEARN_DELAY_MS,
+      lapses: reps > 0 ? lapses + 1 : lapses,
+      reps: 0,
+      lastReview: now,
+    };
+  }
+
+  let nextInterval: number;
+  let nextEase = ease;
+  // A correct answer that took a long time to recall is less secure than a quick one.
+  const hesitated = revealMs !== undefined && revealMs > SLOW_RECALL_MS;
+
+  if (grade === 'hard') {
+    nextEase = Math.max(MIN_EASE, ease - 0.15);
+    nextInterval = reps === 0 ? 1 : Math.max(interval + 1, interval * 1.2);
+  } else if (grade === 'good') {
+    nextInterval = reps === 0 ? 1 : reps === 1 ? 3 : interval * ease;
+  } else {
+    nextEase = hesitated ? ease : ease + 0.15;
+    nextInterval = reps === 0 ? 4 : Math.max(interval + 1, interval * ease * 1.3);
+  }
+
+  if (hesitated && grade !== 'hard' && reps > 1) {
+    nextInterval = Math.max(interval + 1, nextInterval * HESITATION_FACTOR);
+  }
+
+  const roundedInterval = Math.round(nextInterval);
+
+  return {
+    ease: nextEase,
+    interval: roundedInterval,
+    due: now + roundedInterval * DAY_MS,
+    lapses,
+    reps: reps + 1,
+    lastReview: now,
+  };
+};
+
+export const buildStudyQueue = (
+  keys: string[],
+  schedules: ScheduleMap,
+  { now, newPerDay, newLog, shuffleNew = true }: QueueOptions
+): QueueEntry[] => {
+  const due: string[] = [];
+  const upcoming: string[] = [];
+  const unseen: string[] = [];
+
+  keys.forEach((key) => {
+    const card = schedules[key];
+    if (!card) {
+      unseen.push(key);
+    } else if (card.due <= now) {
+      due.push(key);
+    } else {
+      upcoming.push(key);
+    }
+  });
+
+  const byDue = (a: string, b: string) => schedules[a].due - schedules[b].due;
+  due.sort(byDue);
+
+  const newLimit = newWordsRemaining(newLog, newPerDay, now);
+  const newKeys = (shuffleNew ? shuffle(unseen) : unseen).slice(0, newLimit);
+
+  const queue: QueueEntry[] = [
+    ...due.map((key) => ({ key, kind: 'due' as const })),
+    ...newKeys.map((key) => ({ key, kind: 'new' as const })),
+  ];
+
+  if (queue.length > 0) {
+    return queue;
+  }
+
+  return upcoming.sort(byDue).map((key) => ({ key, kind: 'ahead' as const }));
+};
+
+export const summarizeQueue = (keys: string[], schedules: ScheduleMap, now: number) =>
+  keys.reduce(
+    (summary, key) => {
+      const card = schedules[key];
+      if (!card) {
+        summary.unseen += 1;
+      } else if (card.due <= now) {
+        summary.due += 1;
+      }
+      return summary;
+    },
+    { due: 0, unseen: 0 }
+  );
+
+export const pickNextEntry = (queue: QueueEntry[], excludeKey?: string) =>
+  queue.find((entry) => entry.key !== excludeKey) ?? queue[0];
+
+export const formatInterval = (card: CardSchedule, now: number) => {
+  const diff = Math.max(0, card.due - now);
+  if (diff < 60 * MINUTE_MS) {
+    return `${Math.max(1, Math.round(diff / MINUTE_MS))}m`;
+  }
+  if (diff < DAY_MS) {
+    return `${Math.round(diff / (60 * MINUTE_MS))}h`;
+  }
+  return `${Math.round(diff / DAY_MS)}d`;
+};
@@ -0,0 +1,93 @@
+import { describe, expect, it } from 'vitest';
+import { toDayKey } from './srs';
+import { buildStudyStats, heatmapDayKeys, summarizeStreak } from './stats';
+import type { StudyEvent } from './storage';
+
+// Wednesday 21 October 2026, mid-afternoon local time.
+const NOW = new Date(2026, 9, 21, 15).getTime();
+
+const daysAgo = (days: number, hour = 12) => new Date(2026, 9, 21 - days, hour).getTime();
+const dayKeys = (...days: number[]) => new Set(days.map((days) => toDayKey(daysAgo(days))));
+
+describe('summarizeStreak', () => {
+  it('counts consecutive days ending today', () => {
+    expect(summarizeStreak(dayKeys(0, 1, 2), NOW)).toEqual({
+      current: 3,
+      longest: 3,
+      activeDays: 3,
+    });
+  });
+
+  it('keeps the streak alive until today is over', () => {
+    expect(summarizeStreak(dayKeys(1, 2), NOW).current).toBe(2);
+  });
+
+  it('breaks the streak after a missed day', () => {
+    expect(summarizeStreak(dayKeys(2, 3), NOW).current).toBe(0);
+  });
+
+  it('remembers the longest run separately from the current one', () => {
+    const streak = summarizeStreak(dayKeys(0, 5, 6, 7, 8), NOW);
+    expect(streak.current).toBe(1);
+    expect(streak.longest).toBe(4);
+  });
+
+  it('treats month boundaries as consecutive', () => {
+    const days = new Set(['2026-09-30', '2026-10-01']);
+    expect(summarizeStreak(days, new Date(2026, 9, 1, 9).getTime()).longest).toBe(2);
+  });
+});
+
+describe('heatmapDayKeys', () => {
+  it('starts on a Sunday and ends today', () => {
+    const keys = heatmapDayKeys(NOW, 2);
+    expect(keys[0]).toBe('2026-10-11');
+    expect(keys[keys.length - 1]).toBe('2026-10-21');
+    expect(new Date(`${keys[0]}T12:00:00`).getDay()).toBe(0);
+  });
+
+  it('lays out whole weeks before the current one', () => {
+    const keys = heatmapDayKeys(NOW, 20);
+    expect(new Date(`${keys[0]}T12:00:00`).getDay()).toBe(0);
+    expect(keys).toHaveLength(19 * 7 + 4);
+    expect(new Set(keys).size).toBe(keys.length);
+  });
+});
+
+describe('buildStudyStats activity', () => {
+  const event = (type: StudyEvent['type'], days: number, extra: Partial<StudyEvent> = {}) => ({
+    type,
+    key: 'invoice',
+    timestamp: daysAgo(days),
+    ...extra,
+  });
+
+  it('counts only answers towards activity and the streak', () => {
+    const events: StudyEvent[] = [
+      event('grade', 0, { grade: 'good' }),
+      event('quiz', 0, { correct: false }),
+      event('view', 0),
+      event('audio', 1),
+      event('view', 1),
+      event('spelling', 2, { correct: true }),
+    ];
+    const stats = buildStudyStats(events, {}, [], NOW);
+    const counts = new Map(stats.activity.map((entry) => [entry.day, entry.count]));
+
+    expect(counts.get(toDayKey(daysAgo(0)))).toBe(2);
+    expect(counts.get(toDayKey(daysAgo(1)))).toBe(0);
+    expect(counts.get(toDayKey(daysAgo(2)))).toBe(1);
+    expect(stats.streak).toEqual({ current: 1, longest: 1, activeDays: 2 });
+  });
+
+  it('buckets events by local calendar day', () => {
+    const events: StudyEvent[] = [
+      event('grade', 1, { grade: 'good', timestamp: daysAgo(1, 0) }),
+      event('grade', 1, { grade: 'hard', timestamp: daysAgo(1, 23) }),
+    ];
+    const stats = buildStudyStats(events, {}, [], NOW);
+    const yesterday = stats.activity.find((entry) => entry.day === toDayKey(daysAgo(1)));
+    expect(yesterday?.count).toBe(2);
+    expect(stats.dailyReviews.find((entry) => entry.day === yesterday?.day)?.count).toBe(2);
+  });
+});
@@ -0,0 +1,215 @@
+import { toDayKey, type ScheduleMap } from './srs';
+import type { StudyEvent } from './storage';
+import type { VocabItem } from './vocab';
+
+export type WordProgress = {
+  seen: number;
+  learned: number;
+  mature: number;
+  total: number;
+};
+
+export type DayCount = {
+  day: string;
+  count: number;
+};
+
+export type PosAccuracy = {
+  pos: string;
+  correct: number;
+  total: number;
+};
+
+export type StreakSummary = {
+  current: number;
+  longest: number;
+  activeDays: number;
+};
+
+export type HardWord = {
+  item: VocabItem;
+  lapses: number;
+};
+
+export type StudyStats = {
+  progress: WordProgress;
+  dailyReviews: DayCount[];
+  activity: DayCount[];
+  streak: StreakSummary;
+  accuracy: PosAccuracy[];
+  hardest: HardWord[];
+  forecast: DayCount[];
+};
+
+export const MATURE_INTERVAL_DAYS = 21;
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+const REVIEW_HISTORY_DAYS = 30;
+const HEATMAP_WEEKS = 20;
+const FORECAST_DAYS = 14;
+const HARDEST_LIMIT = 10;
+
+const startOfDay = (timestamp: number) => {
+  const date = new Date(timestamp);
+  date.setHours(0, 0, 0, 0);
+  return date.getTime();
+};
+
+// Step by calendar date rather than 24h so daylight-saving changes never skip a day.
+const dayKeysBack = (now: number, days: number) => {
+  const date = new Date(startOfDay(now));
+  const keys: string[] = [];
+  for (let offset = 0; offset < days; offset += 1) {
+    keys.unshift(toDayKey(date.getTime()));
+    date.setDate(date.getDate() - 1);
+  }
+  return keys;
+};
+
+// Start on a Sunday so each heatmap column is one calendar week and each row one weekday.
+export const heatmapDayKeys = (now: number, weeks = HEATMAP_WEEKS) => {
+  const date = new Date(startOfDay(now));
+  date.setDate(date.getDate() - date.getDay() - (weeks - 1) * 7);
+  const keys: string[] = [];
+  while (date.getTime() <= now) {
+    keys.push(toDayKey(date.getTime()));
+    date.setDate(date.getDate() + 1);
+  }
+  return keys;
+};
+
+const nextDayKey = (day: string) => toDayKey(new Date(`${day}T12:00:00`).getTime() + DAY_MS);
+
+const countByDay = (events: StudyEvent[]) => {
+  const counts = new Map<string, number>();
+  events.forEach((event) => {
+    const day = toDayKey(event.timestamp);
+    counts.set(day, (counts.get(day) ?? 0) + 1);
+  });
+  return counts;
+};
+
+const isAnswerEvent = (event: StudyEvent) =>
+  event.type === 'grade' || typeof event.correct === 'boolean';
+
+const isCorrect = (event: StudyEvent) =>
+  event.type === 'grade' ? event.grade !== 'again' : event.correct === true;
+
+export const summarizeProgress = (items: VocabItem[], schedules: ScheduleMap): WordProgress => {
+  let seen = 0;
+  let learned = 0;
+  let mature = 0;
+
+  items.forEach((item) => {
+    const card = schedules[item.englishKey];
+    if (!card) {
+      return;
+    }
+    seen += 1;
+    if (card.interval >= 1) {
+      learned += 1;
+    }
+    if (card.interval >= MATURE_INTERVAL_DAYS) {
+      mature += 1;
+    }
+  });
+
+  return { seen, learned, mature, total: items.length };
+};
+
+export const summarizeStreak = (activeDays: Set<string>, now: number): StreakSummary => {
+  const sorted = Array.from(activeDays).sort();
+  let longest = 0;
+  let run = 0;
+  let previous = '';
+
+  sorted.forEach((day) => {
+    run = previous && day === nextDayKey(previous) ? run + 1 : 1;
+    longest = Math.max(longest, run);
+    previous = day;
+  });
+
+  // Today only breaks the streak once it is over, so start from yesterday if nothing yet.
+  const cursor = new Date(startOfDay(now));
+  if (!activeDays.has(toDayKey(cursor.getTime()))) {
+    cursor.setDate(cursor.getDate() - 1);
+  }
+  let current = 0;
+  while (activeDays.has(toDayKey(cursor.getTime()))) {
+    current += 1;
+    cursor.setDate(cursor.getDate() - 1);
+  }
+
+  return { current, longest, activeDays: activeDays.size };
+};
+
+export const accuracyByPos = (events: StudyEvent[], items: VocabItem[]): PosAccuracy[] => {
+  const posByKey = new Map(items.map((item) => [item.englishKey, item.pos || 'other']));
+  const totals = new Map<string, PosAccuracy>();
+
+  events.filter(isAnswerEvent).forEach((event) => {
+    const pos = posByKey.get(event.key);
+    if (!pos) {
+      return;
+    }
+    const entry = totals.get(pos) ?? { pos, correct: 0, total: 0 };
+    entry.total += 1;
+    entry.correct += isCorrect(event) ? 1 : 0;
+    totals.set(pos, entry);
+  });
+
+  return Array.from(totals.values()).sort((a, b) => b.total - a.total);
+};
+
+export const forecastReviews = (schedules: ScheduleMap, keys: Set<string>, now: number) => {
+  const days = dayKeysBack(now + (FORECAST_DAYS - 1) * DAY_MS, FORECAST_DAYS);
+  const counts = new Map(days.map((day) => [day, 0]));
+  const today = days[0];
+
+  Object.entries(schedules).forEach(([key, card]) => {
+    if (!keys.has(key)) {
+      return;
+    }
+    const day = card.due <= now ? today : toDayKey(card.due);
+    if (counts.has(day)) {
+      counts.set(day, (counts.get(day) ?? 0) + 1);
+    }
+  });
+
+  return days.map((day) => ({ day, count: counts.get(day) ?? 0 }));
+};
+
+export const buildStudyStats = (
+  events: StudyEvent[],
+  schedules: ScheduleMap,
+  items: VocabItem[],
+  now = Date.now()
+): StudyStats => {
+  const keys = new Set(items.map((item) => item.englishKey));
+  const reviewCounts = countByDay(events.filter((event) => event.type === 'grade'));
+  // Only answering counts as studying; views and auto-mode playback would inflate the streak.
+  const activityCounts = countByDay(events.filter(isAnswerEvent));
+  const activeDays = new Set(activityCounts.keys());
+
+  const hardest = items
+    .map((item) => ({ item, lapses: schedules[item.englishKey]?.lapses ?? 0 }))
+    .filter((entry) => entry.lapses > 0)
+    .sort((a, b) => b.lapses - a.lapses)
+    .slice(0, HARDEST_LIMIT);
+
+  return {
+    progress: summarizeProgress(items, schedules),
+    dailyReviews: dayKeysBack(now, REVIEW_HISTORY_DAYS).map((day) => ({
+      day,
+      count: reviewCounts.get(day) ?? 0,
+    })),
+    activity: heatmapDayKeys(now).map((day) => ({
+      day,
+      count: activityCounts.get(day) ?? 0,
+    })),
+    streak: summarizeStreak(activeDays, now),
+    accuracy: accuracyByPos(events, items),
+    hardest,
+    forecast: forecastReviews(schedules, keys, now),
+  };
+};
@@ -0,0 +1,62 @@
+import { describe, expect, it } from 'vitest';
+import { STATE_VERSION, createDefaultState, defaultSettings, migrateState } from './storage';
+
+const schedules = {
+  invoice: { ease: 2.5, interval: 3, due: 1760000000000, lapses: 0, reps: 2, lastReview: 0 },
+};
+
+// One record per stored version, each with the fields that version introduced.
+const recordsByVersion: Record<number, Record<string, unknown>> = {
+  0: { settings: { speechRate: 0.8 }, schedules, newLog: { day: '2026-10-18', count: 4 } },
+  1: { version: 1, settings: { speechRate: 0.8 }, schedules },
+  2: { version: 2, schedules, corrections: { invoice: { status: 'accepted' } } },
+  3: { version: 3, schedules, annotations: { invoice: { starred: true } } },
+  4: { version: 4, schedules, topicOverrides: { invoice: ['finance'] } },
+};
+
+describe('migrateState', () => {
+  it.each([0, 1, 2, 3, 4])('upgrades a version %i record to the current version', (version) => {
+    const state = migrateState(recordsByVersion[version]);
+
+    expect(state.version).toBe(STATE_VERSION);
+    expect(state.schedules).toEqual(schedules);
+    expect(state.corrections).toBeTypeOf('object');
+    expect(state.annotations).toBeTypeOf('object');
+    expect(state.topicOverrides).toBeTypeOf('object');
+    expect(state.examAttempts).toEqual([]);
+  });
+
+  it('keeps the data each version introduced', () => {
+    expect(migrateState(recordsByVersion[0]).newLog).toEqual({ day: '2026-10-18', count: 4 });
+    expect(migrateState(recordsByVersion[1]).settings.speechRate).toBe(0.8);
+    expect(migrateState(recordsByVersion[2]).corrections).toEqual({
+      invoice: { status: 'accepted' },
+    });
+    expect(migrateState(recordsByVersion[3]).annotations).toEqual({ invoice: { starred: true } });
+    expect(migrateState(recordsByVersion[4]).topicOverrides).toEqual({ invoice: ['finance'] });
+  });
+
+  it('fills settings added after the record was saved with defaults', () => {
+    const { settings } = migrateState(recordsByVersion[1]);
+    expect(settings).toEqual({ ...defaultSettings, speechRate: 0.8 });
+  });
+
+  it('leaves a current record as it is', () => {
+    const current = {
+      ...createDefaultState(),
+      examAttempts: [{ id: 'exam-1', finishedAt: 1, score: 500 }],
+    };
+    expect(migrateState(current)).toEqual(current);
+  });
+
+  it.each([undefined, null, 'state', 42, []])('falls back to defaults for %j', (raw) => {
+    expect(migrateState(raw)).toEqual(createDefaultState());
+  });
+
+  it('replaces malformed sections instead of trusting them', () => {
+    const state = migrateState({ version: 5, schedules: [], newLog: 'today', examAttempts: {} });
+    expect(state.schedules).toEqual({});
+    expect(state.newLog).toEqual({ day: '', count: 0 });
+    expect(state.examAttempts).toEqual([]);
+  });
+});
@@ -0,0 +1,394 @@
+import { DEFAULT_CHINESE_SCRIPT, type ChineseScript } from './chinese';
+import type { AnnotationMap } from './annotations';
+import type { CorrectionMap } from './corrections';
+import { BUNDLED_DECK_ID, type Deck } from './decks';
+import { DEFAULT_HIDDEN_DOMAINS } from './definitions';
+import type { ExamAttempt } from './exam';
+import { DEFAULT_SCRIPT_ID, type PlaybackScript } from './playback';
+import { DEFAULT_RECALL_MODE, type RecallMode } from './recall';
+import { DEFAULT_SHORTCUTS, type ShortcutBindings } from './shortcuts';
+import type { TopicId, TopicOverrides } from './topics';
+import { DEFAULT_NEW_PER_DAY, type NewWordLog, type ReviewGrade, type ScheduleMap } from './srs';
+
+export type StudySettings = {
+  englishVoiceURI: string;
+  chineseVoiceURI: string;
+  speechRate: number;
+  newPerDay: number;
+  currentKey: string;
+  playbackScriptId: string;
+  customScripts: PlaybackScript[];
+  activeDeckIds: string[];
+  hiddenDomains: string[];
+  chineseScript: ChineseScript;
+  shortcuts: ShortcutBindings;
+  recallMode: RecallMode;
+  topicFilter: TopicId[];
+};
+
+export type PersistedState = {
+  version: number;
+  settings: StudySettings;
+  schedules: ScheduleMap;
+  newLog: NewWordLog;
+  corrections: CorrectionMap;
+  annotations: AnnotationMap;
+  topicOverrides: TopicOverrides;
+  examAttempts: ExamAttempt[];
+};
+
+export type StudyEventType =
+  | 'view'
+  | 'grade'
+  | 'audio'
+  | 'lookup'
+  | 'reveal'
+  | 'quiz'
+  | 'spelling'
+  | 'dictation'
+  | 'cloze'
+  | 'forms'
+  | 'exam';
+
+export type StudyEvent = {
+  type: StudyEventType;
+  key: string;
+  timestamp: number;
+  grade?: ReviewGrade;
+  lang?: string;
+  found?: boolean;
+  correct?: boolean;
+  elapsedMs?: number;
+};
+
+export type StudyStore = {
+  kind: 'indexeddb' | 'localstorage' | 'memory';
+  loadState: () => Promise<PersistedState>;
+  saveState: (state: PersistedState) => Promise<void>;
+  appendEvent: (event: StudyEvent) => Promise<void>;
+  listEvents: () => Promise<StudyEvent[]>;
+  replaceEvents: (events: StudyEvent[]) => Promise<void>;
+  listDecks: () => Promise<Deck[]>;
+  saveDeck: (deck: Deck) => Promise<void>;
+  deleteDeck: (id: string) => Promise<void>;
+  close: () => void;
+};
+
+export const STATE_VERSION = 5;
+export const DEFAULT_PROFILE_ID = 'default';
+
+const DB_NAME = 'learn-toeic';
+const DB_VERSION = 2;
+const STATE_STORE = 'state';
+const EVENT_STORE = 'events';
+const DECK_STORE = 'decks';
+const STATE_RECORD_KEY = 'app';
+const LOCAL_PREFIX = 'learn-toeic';
+const LOCAL_STATE_SUFFIX = 'state';
+const LOCAL_EVENTS_SUFFIX = 'events';
+const LOCAL_DECKS_SUFFIX = 'decks';
+const LOCAL_EVENT_LIMIT = 20000;
+
+// The default profile keeps the original names so data from before profiles existed still loads.
+const databaseName = (profileId: string) =>
+  profileId === DEFAULT_PROFILE_ID ? DB_NAME : `${DB_NAME}:${profileId}`;
+
+const localKey = (profileId: string, suffix: string) =>
+  profileId === DEFAULT_PROFILE_ID
+    ? `${LOCAL_PREFIX}:${suffix}`
+    : `${LOCAL_PREFIX}:${profileId}:${suffix}`;
+
+export const defaultSettings: StudySettings = {
+  englishVoiceURI: '',
+  chineseVoiceURI: '',
+  speechRate: 1,
+  newPerDay: DEFAULT_NEW_PER_DAY,
+  currentKey: '',
+  playbackScriptId: DEFAULT_SCRIPT_ID,
+  customScripts: [],
+  activeDeckIds: [BUNDLED_DECK_ID],
+  hiddenDomains: DEFAULT_HIDDEN_DOMAINS,
+  chineseScript: DEFAULT_CHINESE_SCRIPT,
+  shortcuts: DEFAULT_SHORTCUTS,
+  recallMode: DEFAULT_RECALL_MODE,
+  topicFilter: [],
+};
+
+export const createDefaultState = (): PersistedState => ({
+  version: STATE_VERSION,
+  settings: { ...defaultSettings },
+  schedules: {},
+  newLog: { day: '', count: 0 },
+  corrections: {},
+  annotations: {},
+  topicOverrides: {},
+  examAttempts: [],
+});
+
+type StateMigration = (state: Record<string, unknown>) => Record<string, unknown>;
+
+// Index n upgrades a version-n record to version n + 1.
+const stateMigrations: StateMigration[] = [
+  (state) => ({ ...state, version: 1 }),
+  (state) => ({ ...state, corrections: {}, version: 2 }),
+  (state) => ({ ...state, annotations: {}, version: 3 }),
+  (state) => ({ ...state, topicOverrides: {}, version: 4 }),
+  (state) => ({ ...state, examAttempts: [], version: 5 }),
+];
+
+const isRecord = (value: unknown): value is Record<string, unknown> =>
+  typeof value === 'object' && value !== null && !Array.isArray(value);
+
+export const migrateState = (raw: unknown): PersistedState => {
+  const fallback = createDefaultState();
+  if (!isRecord(raw)) {
+    return fallback;
+  }
+
+  let state = raw;
+  let version = typeof state.version === 'number' ? state.version : 0;
+  while (version < STATE_VERSION) {
+    const migrate = stateMigrations[version];
+    if (!migrate) {
+      break;
+    }
+    state = migrate(state);
+    version += 1;
+  }
+
+  return {
+    version: STATE_VERSION,
+    settings: {
+      ...fallback.settings,
+      ...(isRecord(state.settings) ? (state.settings as Partial<StudySettings>) : {}),
+    },
+    schedules: isRecord(state.schedules) ? (state.schedules as ScheduleMap) : fallback.schedules,
+    newLog: isRecord(state.newLog) ? (state.newLog as NewWordLog) : fallback.newLog,
+    corrections: isRecord(state.corrections)
+      ? (state.corrections as CorrectionMap)
+      : fallback.corrections,
+    annotations: isRecord(state.annotations)
+      ? (state.annotations as AnnotationMap)
+      : fallback.annotations,
+    topicOverrides: isRecord(state.topicOverrides)
+      ? (state.topicOverrides as TopicOverrides)
+      : fallback.topicOverrides,
+    examAttempts: Array.isArray(state.examAttempts)
+      ? (state.examAttempts as ExamAttempt[])
+      : fallback.examAttempts,
+  };
+};
+
+const requestToPromise = <T>(request: IDBRequest<T>) =>
+  new Promise<T>((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+
+const openDatabase = (name: string) =>
+  new Promise<IDBDatabase>((resolve, reject) => {
+    const request = window.indexedDB.open(name, DB_VERSION);
+    request.onupgradeneeded = (event) => {
+      const db = request.result;
+      if (event.oldVersion < 1) {
+        db.createObjectStore(STATE_STORE);
+        const events = db.createObjectStore(EVENT_STORE, { keyPath: 'id', autoIncrement: true });
+        events.createIndex('key', 'key');
+        events.createIndex('timestamp', 'timestamp');
+      }
+      if (event.oldVersion < 2) {
+        db.createObjectStore(DECK_STORE, { keyPath: 'id' });
+      }
+    };
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+    request.onblocked = () => reject(new Error('IndexedDB upgrade blocked by another tab.'));
+  });
+
+const createIndexedDbStore = async (profileId: string): Promise<StudyStore> => {
+  const db = await openDatabase(databaseName(profileId));
+  // Let a profile deletion or a newer tab's upgrade proceed instead of blocking on us.
+  db.onversionchange = () => db.close();
+
+  const run = <T>(
+    storeName: string,
+    mode: IDBTransactionMode,
+    action: (store: IDBObjectStore) => IDBRequest<T>
+  ) =>
+    requestToPromise(action(db.transaction(storeName, mode).objectStore(storeName)));
+
+  return {
+    kind: 'indexeddb',
+    loadState: async () =>
+      migrateState(await run(STATE_STORE, 'readonly', (store) => store.get(STATE_RECORD_KEY))),
+    saveState: async (state) => {
+      await run(STATE_STORE, 'readwrite', (store) => store.put(state, STATE_RECORD_KEY));
+    },
+    appendEvent: async (event) => {
+      await run(EVENT_STORE, 'readwrite', (store) => store.add(event));
+    },
+    listEvents: async () => {
+      const records = await run(EVENT_STORE, 'readonly', (store) =>
+        store.index('timestamp').getAll()
+      );
+      return (records as Array<StudyEvent & { id?: number }>).map(({ id: _id, ...event }) => event);
+    },
+    replaceEvents: async (events) => {
+      const transaction = db.transaction(EVENT_STORE, 'readwrite');
+      const store = transaction.objectStore(EVENT_STORE);
+      store.clear();
+      events.forEach((event) => store.add(event));
+      await new Promise<void>((resolve, reject) => {
+        transaction.oncomplete = () => resolve();
+        transaction.onerror = () => reject(transaction.error);
+        transaction.onabort = () => reject(transaction.error);
+      });
+    },
+    listDecks: async () =>
+      (await run(DECK_STORE, 'readonly', (store) => store.getAll())) as Deck[],
+    saveDeck: async (deck) => {
+      await run(DECK_STORE, 'readwrite', (store) => store.put(deck));
+    },
+    deleteDeck: async (id) => {
+      await run(DECK_STORE, 'readwrite', (store) => store.delete(id));
+    },
+    close: () => db.close(),
+  };
+};
+
+const readLocalJson = (key: string) => {
+  const raw = window.localStorage.getItem(key);
+  if (!raw) {
+    return undefined;
+  }
+
+  try {
+    return JSON.parse(raw) as unknown;
+  } catch (error) {
+    return undefined;
+  }
+};
+
+const createLocalStorageStore = (profileId: string): StudyStore => {
+  const stateKey = localKey(profileId, LOCAL_STATE_SUFFIX);
+  const eventsKey = localKey(profileId, LOCAL_EVENTS_SUFFIX);
+  const decksKey = localKey(profileId, LOCAL_DECKS_SUFFIX);
+
+  const readEvents = () => {
+    const events = readLocalJson(eventsKey);
+    return Array.isArray(events) ? (events as StudyEvent[]) : [];
+  };
+
+  const readDecks = () => {
+    const decks = readLocalJson(decksKey);
+    return Array.isArray(decks) ? (decks as Deck[]) : [];
+  };
+
+  const writeDecks = (decks: Deck[]) => {
+    window.localStorage.setItem(decksKey, JSON.stringify(decks));
+  };
+
+  return {
+    kind: 'localstorage',
+    loadState: async () => migrateState(readLocalJson(stateKey)),
+    saveState: async (state) => {
+      window.localStorage.setItem(stateKey, JSON.stringify(state));
+    },
+    appendEvent: async (event) => {
+      const events = [...readEvents(), event].slice(-LOCAL_EVENT_LIMIT);
+      window.localStorage.setItem(eventsKey, JSON.stringify(events));
+    },
+    listEvents: async () => readEvents(),
+    replaceEvents: async (events) => {
+      const kept = events.slice(-LOCAL_EVENT_LIMIT);
+      window.localStorage.setItem(eventsKey, JSON.stringify(kept));
+    },
+    listDecks: async () => readDecks(),
+    saveDeck: async (deck) => {
+      writeDecks([...readDecks().filter((existing) => existing.id !== deck.id), deck]);
+    },
+    deleteDeck: async (id) => {
+      writeDecks(readDecks().filter((deck) => deck.id !== id));
+    },
+    close: () => {},
+  };
+};
+
+const createMemoryStore = (): StudyStore => {
+  let state = createDefaultState();
+  const events: StudyEvent[] = [];
+  const decks = new Map<string, Deck>();
+
+  return {
+    kind: 'memory',
+    loadState: async () => state,
+    saveState: async (next) => {
+      state = next;
+    },
+    appendEvent: async (event) => {
+      events.push(event);
+    },
+    listEvents: async () => [...events],
+    replaceEvents: async (next) => {
+      events.splice(0, events.length, ...next);
+    },
+    listDecks: async () => Array.from(decks.values()),
+    saveDeck: async (deck) => {
+      decks.set(deck.id, deck);
+    },
+    deleteDeck: async (id) => {
+      decks.delete(id);
+    },
+    close: () => {},
+  };
+};
+
+const hasLocalStorage = () => {
+  try {
+    const probe = `${LOCAL_PREFIX}:probe`;
+    window.localStorage.setItem(probe, probe);
+    window.localStorage.removeItem(probe);
+    return true;
+  } catch (error) {
+    return false;
+  }
+};
+
+export const openStudyStore = async (
+  profileId = DEFAULT_PROFILE_ID
+): Promise<StudyStore> => {
+  if (typeof window === 'undefined') {
+    return createMemoryStore();
+  }
+
+  if ('indexedDB' in window) {
+    try {
+      return await createIndexedDbStore(profileId);
+    } catch (error) {
+      // Private browsing modes can refuse IndexedDB; fall through to localStorage.
+    }
+  }
+
+  return hasLocalStorage() ? createLocalStorageStore(profileId) : createMemoryStore();
+};
+
+export const deleteStudyData = async (profileId: string) => {
+  if (typeof window === 'undefined') {
+    return;
+  }
+
+  if (hasLocalStorage()) {
+    [LOCAL_STATE_SUFFIX, LOCAL_EVENTS_SUFFIX, LOCAL_DECKS_SUFFIX].forEach((suffix) =>
+      window.localStorage.removeItem(localKey(profileId, suffix))
+    );
+  }
+  if ('indexedDB' in window) {
+    await new Promise<void>((resolve, reject) => {
+      const request = window.indexedDB.deleteDatabase(databaseName(profileId));
+      request.onsuccess = () => resolve();
+      request.onerror = () => reject(request.error);
+      // A connection that ignores versionchange would otherwise leave this pending forever.
+      request.onblocked = () => reject(new Error('IndexedDB delete blocked by another tab.'));
+    });
+  }
+};
@@ -0,0 +1,47 @@
+import { readFileSync } from 'node:fs';
+import { describe, expect, it } from 'vitest';
+import { TOPIC_IDS, TOPIC_RULES, classifyTopics } from './topics';
+import { parseVocab } from './vocab';
+
+const items = parseVocab(
+  readFileSync(new URL('../toeic_vocab_ecdict.csv', import.meta.url), 'utf8')
+);
+
+const topicsOf = (word: string) => {
+  const item = items.find((candidate) => candidate.englishKey === word);
+  if (!item) {
+    throw new Error(`${word} is not in the bundled word list`);
+  }
+  return classifyTopics(item);
+};
+
+describe('classifyTopics', () => {
+  it.each([
+    ['invoice', 'finance'],
+    ['budget', 'finance'],
+    ['salary', 'hr'],
+    ['employee', 'hr'],
+    ['passenger', 'travel'],
+    ['hotel', 'travel'],
+    ['memo', 'office'],
+    ['conference room', 'office'],
+    ['warehouse', 'manufacturing'],
+    ['factory', 'manufacturing'],
+  ])('files %s under %s', (word, topic) => {
+    expect(topicsOf(word)).toContain(topic);
+  });
+
+  it.each(['boot', 'stage', 'coach', 'cautious', 'chore', 'ability', 'weak'])(
+    'leaves %s without a topic',
+    (word) => {
+      expect(topicsOf(word)).toEqual([]);
+    }
+  );
+
+  it('only uses multi-character keywords', () => {
+    const short = TOPIC_IDS.flatMap((topic) =>
+      TOPIC_RULES[topic].keywords.filter((keyword) => keyword.length < 2)
+    );
+    expect(short).toEqual([]);
+  });
+});
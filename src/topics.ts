@@ -0,0 +1,200 @@
+import { parseDefinition, splitGlosses } from './definitions';
+import type { ScheduleMap } from './srs';
+import type { VocabItem } from './vocab';
+
+export type TopicId = 'finance' | 'hr' | 'travel' | 'office' | 'manufacturing';
+
+export type TopicRule = {
+  label: string;
+  keywords: string[];
+};
+
+// Manual assignments replace the keyword rules for that word; [] means "no topic".
+export type TopicOverrides = Record<string, TopicId[]>;
+
+export type TopicIndex = Map<string, TopicId[]>;
+
+export type TopicProgress = {
+  topic: TopicId;
+  total: number;
+  seen: number;
+  learned: number;
+};
+
+// Keywords are listed in both scripts: the TOEIC meanings are Traditional, ECDICT is Simplified.
+// Every keyword is a multi-character business term, since single characters such as 財 or 旅
+// also turn up inside unrelated words (小心的, 舞臺).
+export const TOPIC_RULES: Record<TopicId, TopicRule> = {
+  finance: {
+    label: 'Finance',
+    keywords: [
+      '金錢', '金钱', '金融', '銀行', '银行', '貸款', '贷款', '借款', '帳戶', '账户', '帳單',
+      '账单', '帳目', '账目', '稅收', '税收', '稅款', '税款', '納稅', '纳税', '關稅', '关税',
+      '投資', '投资', '股票', '股份', '股東', '股东', '股息', '利息', '利率', '預算', '预算',
+      '費用', '费用', '價格', '价格', '定價', '定价', '支付', '付款', '收入', '利潤', '利润',
+      '盈利', '獲利', '获利', '資金', '资金', '資本', '资本', '資產', '资产', '財務', '财务',
+      '財政', '财政', '財產', '财产', '財富', '财富', '貨幣', '货币', '現金', '现金', '支票',
+      '信貸', '信贷', '會計', '会计', '審計', '审计', '保險', '保险', '債務', '债务', '債券',
+      '债券', '負債', '负债', '匯率', '汇率', '匯款', '汇款', '經濟', '经济', '成本', '收益',
+      '虧損', '亏损', '赤字', '存款', '報價', '报价', '折扣', '退款', '發票', '发票', '收據',
+      '收据', '開支', '开支', '支出', '花費', '花费', '營收', '营收', '營業額', '营业额', '交易',
+      '買賣', '买卖', '融資', '融资', '基金', '抵押', '分期', '租金', '佣金', '罰款', '罚款',
+      '捐款', '捐贈', '捐赠', '補助', '补助', '津貼', '津贴', '報銷', '报销', '賠償', '赔偿',
+      '退稅', '退税', '貿易', '贸易', '市場', '市场', '商業', '商业', '銷售', '销售', '零售',
+      '批發', '批发', '經費', '经费', '償還', '偿还', '欠款', '破產', '破产', '通貨', '通货',
+      '收費', '收费', '付費', '付费', '費率', '费率', '估價', '估价', '提款', '季度', '順差',
+      '顺差', '盈餘', '盈余', '信用卡', '扣除', '扣款',
+    ],
+  },
+  hr: {
+    label: 'HR',
+    keywords: [
+      '雇用', '僱用', '雇傭', '僱傭', '雇佣', '雇員', '僱員', '雇员', '雇主', '僱主', '解雇',
+      '解僱', '員工', '员工', '職員', '职员', '職位', '职位', '職務', '职务', '職業', '职业',
+      '職責', '职责', '職缺', '空缺', '招聘', '招募', '徵才', '征才', '薪水', '薪資', '薪资',
+      '薪金', '薪酬', '工資', '工资', '加薪', '面試', '面试', '升遷', '升迁', '晉升', '晋升',
+      '升職', '升职', '人事', '人力', '培訓', '培训', '退休', '辭職', '辞职', '辭退', '辞退',
+      '離職', '离职', '履歷', '履历', '簡歷', '简历', '應徵', '应征', '應聘', '应聘', '同事',
+      '主管', '經理', '经理', '福利', '加班', '實習', '实习', '人才', '求職', '求职', '聘用',
+      '聘請', '聘请', '任命', '任職', '任职', '就業', '就业', '失業', '失业', '工作人員',
+      '工作人员', '勞工', '劳工', '勞動', '劳动', '工會', '工会', '資歷', '资历', '資格', '资格',
+      '候選人', '候选人', '申請人', '申请人', '求職者', '求职者', '考核', '績效', '绩效', '病假',
+      '請假', '请假', '產假', '产假', '輪班', '轮班', '兼職', '兼职', '全職', '全职', '上司',
+      '下屬', '下属', '部屬', '老闆', '老板', '同僚', '入職', '入职', '裁員', '裁员', '人員',
+      '人员', '時薪', '时薪', '日薪', '月薪', '年薪', '調動', '调动', '裁減', '裁减',
+    ],
+  },
+  travel: {
+    label: 'Travel',
+    keywords: [
+      '旅行', '旅遊', '旅游', '旅客', '旅程', '旅館', '旅馆', '旅費', '旅费', '飛機', '飞机',
+      '機場', '机场', '航班', '航空', '班機', '班机', '飛行', '飞行', '行李', '酒店', '飯店',
+      '饭店', '護照', '护照', '簽證', '签证', '海關', '海关', '觀光', '观光', '遊客', '游客',
+      '乘客', '車票', '车票', '機票', '机票', '登機', '登机', '抵達', '抵达', '目的地', '住宿',
+      '餐廳', '餐厅', '導遊', '导游', '景點', '景点', '度假', '假期', '行程', '出差', '出發',
+      '出发', '啟程', '启程', '航行', '航線', '航线', '郵輪', '邮轮', '渡輪', '渡轮', '火車',
+      '火车', '列車', '列车', '公車', '公车', '巴士', '地鐵', '地铁', '計程車', '出租车', '租車',
+      '租车', '車站', '车站', '月臺', '月台', '售票', '訂房', '订房', '預訂', '预订', '客房',
+      '房間', '房间', '櫃檯', '柜台', '入住', '退房', '時刻表', '时刻表', '轉機', '转机', '延誤',
+      '延误', '通勤', '交通', '旅途', '遊覽', '游览', '參觀', '参观', '博物館', '博物馆', '名勝',
+      '名胜', '菜單', '菜单', '點菜', '点菜', '小費', '小费', '行李箱', '手提箱', '外國', '外国',
+      '國外', '国外', '出國', '出国', '旅伴', '遊輪', '游轮',
+    ],
+  },
+  office: {
+    label: 'Office',
+    keywords: [
+      '辦公', '办公', '文件', '會議', '会议', '開會', '开会', '檔案', '档案', '影印', '复印',
+      '印表', '打印', '列印', '郵件', '邮件', '信件', '信封', '郵寄', '邮寄', '備忘', '备忘',
+      '報告', '报告', '秘書', '秘书', '文具', '傳真', '传真', '電話', '电话', '預約', '预约',
+      '議程', '议程', '簽名', '签名', '簽署', '签署', '表格', '提案', '部門', '部门', '電腦',
+      '电脑', '資料', '资料', '數據', '数据', '日程', '簡報', '简报', '通知', '公告', '備忘錄',
+      '备忘录', '合同', '合約', '合约', '契約', '契约', '協議', '协议', '談判', '谈判', '協商',
+      '协商', '客戶', '客户', '顧客', '顾客', '總部', '总部', '分公司', '分店', '公司', '企業',
+      '企业', '董事', '總裁', '总裁', '執行長', '行政', '管理', '經營', '经营', '營運', '运营',
+      '專案', '项目', '截止', '期限', '日期', '排程', '安排', '計畫', '计划', '規劃', '规划',
+      '筆記', '笔记', '記錄', '记录', '紀錄', '清單', '清单', '目錄', '目录', '歸檔', '归档',
+      '附件', '網站', '网站', '網路', '网络', '軟體', '软件', '螢幕', '屏幕', '鍵盤', '键盘',
+      '印表機', '打印机', '訂書機', '订书机', '資訊', '信息', '溝通', '沟通', '聯絡', '联络',
+      '聯繫', '联系', '回覆', '答覆', '答复', '確認', '确认', '核准', '批准', '審核', '审核',
+      '行銷', '营销', '廣告', '广告', '宣傳', '宣传', '推廣', '推广', '展覽', '展览', '研討會',
+      '研讨会', '講座', '讲座', '演講', '演讲', '發表', '发表', '手冊', '手册', '說明書', '说明书',
+      '改期', '接待', '撥打', '拨打', '公事包',
+    ],
+  },
+  manufacturing: {
+    label: 'Manufacturing',
+    keywords: [
+      '製造', '制造', '工廠', '工厂', '廠房', '厂房', '生產', '生产', '產品', '产品', '機器',
+      '机器', '設備', '设备', '裝配', '装配', '組裝', '组装', '原料', '材料', '品質', '质量',
+      '品质', '庫存', '库存', '倉庫', '仓库', '倉儲', '仓储', '運輸', '运输', '貨物', '货物',
+      '出貨', '發貨', '发货', '零件', '工程', '加工', '包裝', '包装', '物流', '供應', '供应',
+      '產量', '产量', '檢驗', '检验', '檢查', '检查', '維修', '维修', '修理', '保養', '保养',
+      '機械', '机械', '工業', '工业', '裝置', '装置', '器械', '工具', '儀器', '仪器', '零售商',
+      '供應商', '供应商', '廠商', '厂商', '製品', '制品', '成品', '半成品', '規格', '规格', '標準',
+      '标准', '流程', '工序', '研發', '研发', '開發', '开发', '發明', '发明', '專利', '专利',
+      '安裝', '安装', '操作', '運轉', '运转', '引擎', '發動機', '发动机', '馬達', '电动机', '電力',
+      '电力', '能源', '燃料', '化學', '化学', '金屬', '金属', '鋼鐵', '钢铁', '塑膠', '塑料',
+      '配送', '運送', '运送', '裝運', '装运', '訂單', '订单', '訂貨', '订货', '批量', '自動化',
+      '自动化', '機具', '器材', '貨運', '货运', '貨櫃', '集装箱', '倉管', '耐用', '故障', '損壞',
+      '损坏', '瑕疵', '缺陷', '防護', '防护', '儲藏', '储藏',
+    ],
+  },
+};
+
+export const TOPIC_IDS = Object.keys(TOPIC_RULES) as TopicId[];
+
+export const isTopicId = (value: unknown): value is TopicId =>
+  typeof value === 'string' && value in TOPIC_RULES;
+
+// Only the leading senses count; both sources trail off into rare ones (boot → 解雇).
+const PRIMARY_SENSES = 2;
+
+const meaningSegments = (item: VocabItem) => {
+  const [primary] = parseDefinition(item.ecdictZh).filter((group) => !group.domain);
+  return [
+    ...splitGlosses(item.chinese).slice(0, PRIMARY_SENSES),
+    ...(primary?.glosses ?? []).slice(0, PRIMARY_SENSES),
+  ];
+};
+
+export const classifyTopics = (item: VocabItem): TopicId[] => {
+  const segments = meaningSegments(item);
+  return TOPIC_IDS.filter((topic) =>
+    TOPIC_RULES[topic].keywords.some((keyword) =>
+      segments.some((segment) => segment.includes(keyword))
+    )
+  );
+};
+
+export const buildTopicIndex = (items: VocabItem[]): TopicIndex =>
+  new Map(items.map((item) => [item.englishKey, classifyTopics(item)]));
+
+// Kept separate from classification so toggling one word doesn't re-run the keyword rules.
+export const applyTopicOverrides = (index: TopicIndex, overrides: TopicOverrides): TopicIndex => {
+  const next = new Map(index);
+  Object.entries(overrides).forEach(([key, topics]) => {
+    if (next.has(key)) {
+      next.set(key, topics);
+    }
+  });
+  return next;
+};
+
+export const topicsFor = (index: TopicIndex, key: string) => index.get(key) ?? [];
+
+// An empty selection means every word, so the scope never silently empties the deck.
+export const filterByTopics = (items: VocabItem[], index: TopicIndex, selected: TopicId[]) =>
+  selected.length === 0
+    ? items
+    : items.filter((item) =>
+        topicsFor(index, item.englishKey).some((topic) => selected.includes(topic))
+      );
+
+export const summarizeTopics = (
+  items: VocabItem[],
+  index: TopicIndex,
+  schedules: ScheduleMap
+): TopicProgress[] => {
+  const totals = new Map<TopicId, TopicProgress>(
+    TOPIC_IDS.map((topic) => [topic, { topic, total: 0, seen: 0, learned: 0 }])
+  );
+
+  items.forEach((item) => {
+    const card = schedules[item.englishKey];
+    topicsFor(index, item.englishKey).forEach((topic) => {
+      const entry = totals.get(topic);
+      if (!entry) {
+        return;
+      }
+      entry.total += 1;
+      entry.seen += card ? 1 : 0;
+      entry.learned += card && card.interval >= 1 ? 1 : 0;
+    });
+  });
+
+  return Array.from(totals.values());
+};
+
+export const toggleTopic = (topics: TopicId[], topic: TopicId) =>
+  topics.includes(topic) ? topics.filter((value) => value !== topic) : [...topics, topic];
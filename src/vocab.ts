@@ -0,0 +1,131 @@
+import { parseCsv } from './csv';
+
+export type VocabItem = {
+  english: string;
+  chinese: string;
+  checkStatus: string;
+  suggestedZh: string;
+  notes: string;
+  ecdictZh: string;
+  ecdictPos: string;
+  englishKey: string;
+  pos: string;
+};
+
+export type ParseIssue = {
+  line: number;
+  kind: 'repaired' | 'dropped';
+  reason: string;
+};
+
+export type ParseReport = {
+  items: VocabItem[];
+  issues: ParseIssue[];
+};
+
+export const alignRow = (parts: string[], headerLength: number) => {
+  if (parts.length === headerLength) {
+    return parts;
+  }
+
+  if (parts.length < headerLength) {
+    return [...parts, ...Array(headerLength - parts.length).fill('')];
+  }
+
+  if (headerLength <= 2) {
+    return parts.slice(0, headerLength);
+  }
+
+  const tailLength = headerLength - 2;
+  const chinese = parts.slice(1, parts.length - tailLength).join(',');
+  return [parts[0], chinese, ...parts.slice(parts.length - tailLength)];
+};
+
+export const normalizeLookup = (value: string) =>
+  value
+    .trim()
+    .toLowerCase()
+    .replace(/\s+/g, ' ')
+    .replace(/\s*\([^)]*\)\s*$/, '');
+
+export const extractPosTag = (wordWithPos: string) => wordWithPos.match(/\(([^)]*)\)\s*$/)?.[1] ?? '';
+
+const describeAlignment = (length: number, headerLength: number) =>
+  length < headerLength
+    ? `Padded ${headerLength - length} missing column(s)`
+    : `Merged ${length - headerLength} extra column(s) into the Chinese meaning`;
+
+export const parseVocabWithReport = (raw: string, delimiter = ','): ParseReport => {
+  const { rows, errors } = parseCsv(raw, { delimiter });
+  const issues: ParseIssue[] = errors.map(({ line, message }) => ({
+    line,
+    kind: 'repaired',
+    reason: message,
+  }));
+
+  if (rows.length <= 1) {
+    return { items: [], issues };
+  }
+
+  const header = rows[0].fields;
+  const headerLength = header.length;
+  const indexMap = new Map(header.map((name, index) => [name.trim(), index]));
+
+  const englishIndex = indexMap.get('English') ?? 0;
+  const chineseIndex = indexMap.get('Chinese Meanings') ?? 1;
+  const wordWithPosIndex = indexMap.get('word_with_pos') ?? englishIndex;
+  const posIndex = indexMap.get('pos') ?? -1;
+  const checkStatusIndex = indexMap.get('check_status') ?? -1;
+  const suggestedZhIndex = indexMap.get('suggested_zh') ?? -1;
+  const notesIndex = indexMap.get('notes') ?? -1;
+  const ecdictZhIndex = indexMap.get('ecdict_zh') ?? -1;
+  const ecdictPosIndex = indexMap.get('ecdict_pos') ?? -1;
+
+  const items: VocabItem[] = [];
+
+  rows.slice(1).forEach(({ line, fields: rawParts }) => {
+    const parts = alignRow(rawParts, headerLength);
+    const englishKey = parts[englishIndex]?.trim() ?? '';
+    const wordWithPos = parts[wordWithPosIndex]?.trim() || englishKey;
+    const chinese = parts[chineseIndex]?.trim() ?? '';
+    const checkStatus = checkStatusIndex >= 0 ? parts[checkStatusIndex]?.trim() ?? '' : '';
+    const suggestedZh = suggestedZhIndex >= 0 ? parts[suggestedZhIndex]?.trim() ?? '' : '';
+    const notes = notesIndex >= 0 ? parts[notesIndex]?.trim() ?? '' : '';
+    const ecdictZh = ecdictZhIndex >= 0 ? parts[ecdictZhIndex]?.trim() ?? '' : '';
+    const ecdictPos = ecdictPosIndex >= 0 ? parts[ecdictPosIndex]?.trim() ?? '' : '';
+    const pos = posIndex >= 0 ? parts[posIndex]?.trim() ?? '' : extractPosTag(wordWithPos);
+
+    if (!wordWithPos || !chinese) {
+      issues.push({
+        line,
+        kind: 'dropped',
+        reason: wordWithPos ? 'Missing Chinese meaning' : 'Missing English word',
+      });
+      return;
+    }
+
+    if (rawParts.length !== headerLength) {
+      issues.push({
+        line,
+        kind: 'repaired',
+        reason: describeAlignment(rawParts.length, headerLength),
+      });
+    }
+
+    items.push({
+      english: wordWithPos,
+      chinese,
+      checkStatus,
+      suggestedZh,
+      notes,
+      ecdictZh,
+      ecdictPos,
+      englishKey,
+      pos,
+    });
+  });
+
+  return { items, issues };
+};
+
+export const parseVocab = (raw: string): VocabItem[] => parseVocabWithReport(raw).items;
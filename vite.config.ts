@@ -1,7 +1,59 @@
-import { defineConfig } from 'vite';
+import { createHash } from 'node:crypto';
+import { readFileSync, readdirSync } from 'node:fs';
+import { join, relative, sep } from 'node:path';
+import { defineConfig, type Plugin } from 'vite';
 import react from '@vitejs/plugin-react';
 
+const SERVICE_WORKER_TEMPLATE = 'src/service-worker.js';
+
+const listFiles = (dir: string): string[] =>
+  readdirSync(dir, { withFileTypes: true }).flatMap((entry) =>
+    entry.isDirectory() ? listFiles(join(dir, entry.name)) : [join(dir, entry.name)]
+  );
+
+// Emits sw.js with every build output and public file precached. The cache version is a hash
+// of their contents, so each deploy that changes anything installs a fresh cache.
+const serviceWorker = (): Plugin => {
+  let publicDir = '';
+
+  return {
+    name: 'learn-toeic-service-worker',
+    apply: 'build',
+    enforce: 'post',
+    configResolved(config) {
+      publicDir = config.publicDir;
+    },
+    generateBundle(_options, bundle) {
+      const hash = createHash('sha256');
+      const files = Object.values(bundle)
+        .map((output) => ({
+          url: output.fileName,
+          content: output.type === 'chunk' ? output.code : output.source,
+        }))
+        .concat(
+          listFiles(publicDir).map((file) => ({
+            url: relative(publicDir, file).split(sep).join('/'),
+            content: readFileSync(file),
+          }))
+        )
+        .sort((a, b) => a.url.localeCompare(b.url));
+
+      files.forEach((file) => {
+        hash.update(file.url);
+        hash.update(file.content);
+      });
+
+      const urls = ['./', ...files.map((file) => file.url).filter((url) => url !== 'index.html')];
+      const source = readFileSync(SERVICE_WORKER_TEMPLATE, 'utf8')
+        .replace('__CACHE_VERSION__', JSON.stringify(hash.digest('hex').slice(0, 12)))
+        .replace('__PRECACHE_URLS__', JSON.stringify(urls, null, 2));
+
+      this.emitFile({ type: 'asset', fileName: 'sw.js', source });
+    },
+  };
+};
+
 export default defineConfig({
   base: '/learn-toeic/',
-  plugins: [react()],
+  plugins: [react(), serviceWorker()],
 });